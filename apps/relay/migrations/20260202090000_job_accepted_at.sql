@@ -0,0 +1,20 @@
+-- migrate:up
+alter table jobs
+  add column if not exists accepted_at timestamptz null;
+
+update jobs
+  set accepted_at = updated_at
+  where status = 'accepted' and accepted_at is null;
+
+create index if not exists idx_jobs_accepted_unpaid on jobs (accepted_at)
+  where status = 'accepted' and payment_tx_hash is null;
+
+create index if not exists idx_jobs_running_lock_expires_at on jobs (lock_expires_at)
+  where status = 'running';
+
+-- migrate:down
+drop index if exists idx_jobs_running_lock_expires_at;
+drop index if exists idx_jobs_accepted_unpaid;
+
+alter table jobs
+  drop column if exists accepted_at;
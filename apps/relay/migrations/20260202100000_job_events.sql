@@ -0,0 +1,19 @@
+-- migrate:up
+create table if not exists job_events (
+  event_id bigserial primary key,
+  job_id uuid not null references jobs(job_id) on delete cascade,
+  seller_pubkey text not null,
+  buyer_pubkey text not null,
+  type text not null,
+  from_status job_status_enum null,
+  to_status job_status_enum not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_job_events_seller_event on job_events (seller_pubkey, event_id);
+create index if not exists idx_job_events_buyer_event on job_events (buyer_pubkey, event_id);
+create index if not exists idx_job_events_job_id on job_events (job_id);
+create index if not exists idx_job_events_created_at on job_events (created_at);
+
+-- migrate:down
+drop table if exists job_events;
@@ -0,0 +1,44 @@
+-- migrate:up
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'webhook_delivery_status_enum') then
+    create type webhook_delivery_status_enum as enum ('pending', 'delivered', 'failed');
+  end if;
+end $$;
+
+create table if not exists webhooks (
+  webhook_id uuid primary key default gen_random_uuid(),
+  pubkey text not null,
+  url text not null,
+  event_types text[] null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_webhooks_pubkey on webhooks (pubkey);
+
+create table if not exists webhook_deliveries (
+  delivery_id bigserial primary key,
+  webhook_id uuid not null references webhooks(webhook_id) on delete cascade,
+  event_id bigint not null,
+  event_type text not null,
+  payload jsonb not null,
+  status webhook_delivery_status_enum not null default 'pending',
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  last_attempt_at timestamptz null,
+  last_status_code integer null,
+  last_error text null,
+  delivered_at timestamptz null,
+  created_at timestamptz not null default now(),
+  unique (webhook_id, event_id)
+);
+
+create index if not exists idx_webhook_deliveries_due on webhook_deliveries (next_attempt_at)
+  where status = 'pending';
+create index if not exists idx_webhook_deliveries_webhook on webhook_deliveries (webhook_id, delivery_id);
+create index if not exists idx_webhook_deliveries_created_at on webhook_deliveries (created_at);
+
+-- migrate:down
+drop table if exists webhook_deliveries;
+drop table if exists webhooks;
+drop type if exists webhook_delivery_status_enum;
@@ -0,0 +1,22 @@
+-- migrate:up
+alter table offers
+  add column if not exists updated_at timestamptz not null default now(),
+  add column if not exists deleted_at timestamptz null;
+
+update offers set updated_at = created_at;
+
+drop trigger if exists set_offers_updated_at on offers;
+create trigger set_offers_updated_at
+before update on offers
+for each row execute function set_updated_at();
+
+create index if not exists idx_offers_not_deleted_created_at on offers (created_at desc)
+  where deleted_at is null;
+
+-- migrate:down
+drop index if exists idx_offers_not_deleted_created_at;
+drop trigger if exists set_offers_updated_at on offers;
+
+alter table offers
+  drop column if exists deleted_at,
+  drop column if exists updated_at;
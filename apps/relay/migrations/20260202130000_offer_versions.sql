@@ -0,0 +1,65 @@
+-- migrate:up
+alter table offers
+  add column if not exists version integer not null default 1;
+
+create table if not exists offer_versions (
+  offer_id uuid not null references offers(offer_id) on delete cascade,
+  version integer not null,
+  title text not null,
+  description text not null,
+  tags text[] not null default '{}',
+  pricing_mode pricing_mode_enum not null,
+  fixed_price_raw text null,
+  created_at timestamptz not null default now(),
+  primary key (offer_id, version)
+);
+
+insert into offer_versions (
+  offer_id, version, title, description, tags, pricing_mode, fixed_price_raw, created_at
+)
+select offer_id, version, title, description, tags, pricing_mode, fixed_price_raw, updated_at
+from offers
+on conflict do nothing;
+
+alter table jobs
+  add column if not exists offer_version integer null,
+  add column if not exists offer_snapshot jsonb null;
+
+-- Existing jobs get the current terms, the closest record available. Keep
+-- updated_at untouched so updated_after cursors do not replay every job.
+alter table jobs disable trigger set_jobs_updated_at;
+
+update jobs j
+  set offer_version = o.version,
+      offer_snapshot = jsonb_build_object(
+        'version', o.version,
+        'title', o.title,
+        'description', o.description,
+        'tags', to_jsonb(o.tags),
+        'pricing_mode', o.pricing_mode,
+        'fixed_price_raw', o.fixed_price_raw
+      )
+  from offers o
+  where o.offer_id = j.offer_id and j.offer_version is null;
+
+alter table jobs enable trigger set_jobs_updated_at;
+
+do $$
+begin
+  if not exists (select 1 from pg_constraint where conname = 'jobs_offer_version_fkey') then
+    alter table jobs
+      add constraint jobs_offer_version_fkey
+      foreign key (offer_id, offer_version) references offer_versions (offer_id, version);
+  end if;
+end $$;
+
+-- migrate:down
+alter table jobs
+  drop constraint if exists jobs_offer_version_fkey,
+  drop column if exists offer_snapshot,
+  drop column if exists offer_version;
+
+drop table if exists offer_versions;
+
+alter table offers
+  drop column if exists version;
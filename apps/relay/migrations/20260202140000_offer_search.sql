@@ -0,0 +1,26 @@
+-- migrate:up
+-- array_to_string is only stable, so wrap it to use in a generated column.
+create or replace function offer_search_vector(title text, description text, tags text[])
+returns tsvector
+language sql
+immutable
+as $$
+  select
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(array_to_string(tags, ' '), '')), 'B')
+$$;
+
+alter table offers
+  add column if not exists search_vector tsvector
+  generated always as (offer_search_vector(title, description, tags)) stored;
+
+create index if not exists idx_offers_search_vector on offers using gin (search_vector);
+
+-- migrate:down
+drop index if exists idx_offers_search_vector;
+
+alter table offers
+  drop column if exists search_vector;
+
+drop function if exists offer_search_vector(text, text, text[]);
@@ -0,0 +1,15 @@
+-- migrate:up
+-- Keyset pages order by (timestamp, id), so the id is part of every index.
+create index if not exists idx_jobs_seller_updated_keyset on jobs (seller_pubkey, updated_at, job_id);
+create index if not exists idx_jobs_buyer_updated_keyset on jobs (buyer_pubkey, updated_at, job_id);
+create index if not exists idx_jobs_seller_created_keyset on jobs (seller_pubkey, created_at desc, job_id desc);
+create index if not exists idx_jobs_buyer_created_keyset on jobs (buyer_pubkey, created_at desc, job_id desc);
+create index if not exists idx_offers_not_deleted_created_keyset on offers (created_at desc, offer_id desc)
+  where deleted_at is null;
+
+-- migrate:down
+drop index if exists idx_offers_not_deleted_created_keyset;
+drop index if exists idx_jobs_buyer_created_keyset;
+drop index if exists idx_jobs_seller_created_keyset;
+drop index if exists idx_jobs_buyer_updated_keyset;
+drop index if exists idx_jobs_seller_updated_keyset;
@@ -0,0 +1,13 @@
+-- migrate:up
+alter table offers
+  add column if not exists request_schema jsonb null;
+
+alter table offer_versions
+  add column if not exists request_schema jsonb null;
+
+-- migrate:down
+alter table offer_versions
+  drop column if exists request_schema;
+
+alter table offers
+  drop column if exists request_schema;
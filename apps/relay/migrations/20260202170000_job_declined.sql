@@ -0,0 +1,10 @@
+-- migrate:up transaction:false
+-- New enum values cannot be used in the transaction that adds them, so the
+-- constraint that mentions 'declined' lives in the next migration.
+alter type job_status_enum add value if not exists 'declined';
+
+-- migrate:down
+-- Postgres cannot drop an enum value; existing declined jobs become canceled
+-- and the unused value stays in job_status_enum.
+update jobs set status = 'canceled', error = null where status = 'declined';
+update job_events set to_status = 'canceled' where to_status = 'declined';
@@ -0,0 +1,50 @@
+-- migrate:up
+-- Declined jobs never get a quote or a payment, like canceled ones.
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired', 'declined')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+  );
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired', 'declined')
+    or payment_tx_hash is not null
+  );
+
+alter table jobs
+  drop constraint if exists jobs_declined_error;
+
+alter table jobs
+  add constraint jobs_declined_error check (
+    status <> 'declined'
+    or (error is not null and result_url is null)
+  );
+
+-- migrate:down
+alter table jobs
+  drop constraint if exists jobs_declined_error;
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired')
+    or payment_tx_hash is not null
+  );
+
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+  );
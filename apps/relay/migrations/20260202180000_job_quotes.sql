@@ -0,0 +1,44 @@
+-- migrate:up
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'job_quote_status_enum') then
+    create type job_quote_status_enum as enum ('open', 'accepted', 'rejected');
+  end if;
+end $$;
+
+create table if not exists job_quotes (
+  job_id uuid not null references jobs(job_id) on delete cascade,
+  revision integer not null,
+  quote_amount_raw text not null,
+  quote_invoice_address text not null,
+  quote_expires_at timestamptz null,
+  status job_quote_status_enum not null default 'open',
+  counter_amount_raw text null,
+  response_message text null,
+  responded_at timestamptz null,
+  created_at timestamptz not null default now(),
+  primary key (job_id, revision)
+);
+
+-- Jobs quoted before history existed get their current quote as revision 1.
+insert into job_quotes (
+  job_id, revision, quote_amount_raw, quote_invoice_address, quote_expires_at, status,
+  responded_at, created_at
+)
+select
+  job_id,
+  1,
+  quote_amount_raw,
+  quote_invoice_address,
+  quote_expires_at,
+  case when accepted_at is not null then 'accepted'::job_quote_status_enum
+       else 'open'::job_quote_status_enum end,
+  accepted_at,
+  updated_at
+from jobs
+where quote_amount_raw is not null and quote_invoice_address is not null
+on conflict do nothing;
+
+-- migrate:down
+drop table if exists job_quotes;
+drop type if exists job_quote_status_enum;
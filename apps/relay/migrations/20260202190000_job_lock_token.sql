@@ -0,0 +1,9 @@
+-- migrate:up
+-- Fencing token for the execution lock: bumped on every fresh acquisition so a
+-- seller process holding an older lease cannot deliver.
+alter table jobs
+  add column if not exists lock_token integer not null default 0;
+
+-- migrate:down
+alter table jobs
+  drop column if exists lock_token;
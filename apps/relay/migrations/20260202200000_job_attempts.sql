@@ -0,0 +1,24 @@
+-- migrate:up
+-- `attempts` counts execution leases that expired without a delivery; the
+-- sweeper fails the job once it reaches `max_attempts`.
+alter table jobs
+  add column if not exists attempts integer not null default 0;
+
+alter table jobs
+  add column if not exists max_attempts integer not null default 3;
+
+alter table jobs
+  drop constraint if exists jobs_max_attempts_positive;
+
+alter table jobs
+  add constraint jobs_max_attempts_positive check (max_attempts >= 1);
+
+-- migrate:down
+alter table jobs
+  drop constraint if exists jobs_max_attempts_positive;
+
+alter table jobs
+  drop column if exists max_attempts;
+
+alter table jobs
+  drop column if exists attempts;
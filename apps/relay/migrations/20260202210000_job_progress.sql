@@ -0,0 +1,24 @@
+-- migrate:up
+alter table jobs
+  add column if not exists progress jsonb null;
+
+create table if not exists job_progress (
+  progress_id bigserial primary key,
+  job_id uuid not null references jobs(job_id) on delete cascade,
+  percent smallint null,
+  stage text null,
+  message text null,
+  created_at timestamptz not null default now(),
+  constraint job_progress_percent_range check (
+    percent is null or (percent >= 0 and percent <= 100)
+  )
+);
+
+create index if not exists idx_job_progress_job_id
+  on job_progress (job_id, progress_id);
+
+-- migrate:down
+drop table if exists job_progress;
+
+alter table jobs
+  drop column if exists progress;
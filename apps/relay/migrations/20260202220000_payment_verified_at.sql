@@ -0,0 +1,8 @@
+-- migrate:up
+-- Set when the relay verified the submitted payment block itself.
+alter table jobs
+  add column if not exists payment_verified_at timestamptz null;
+
+-- migrate:down
+alter table jobs
+  drop column if exists payment_verified_at;
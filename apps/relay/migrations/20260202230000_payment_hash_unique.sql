@@ -0,0 +1,40 @@
+-- migrate:up
+-- Payment hashes are stored trimmed and lowercased so the same Nano block
+-- cannot be claimed twice under different spellings.
+update jobs
+  set payment_tx_hash = lower(btrim(payment_tx_hash))
+  where payment_tx_hash is not null
+    and payment_tx_hash <> lower(btrim(payment_tx_hash));
+
+do $$
+declare
+  duplicate text;
+begin
+  select payment_tx_hash into duplicate
+  from jobs
+  where payment_tx_hash is not null
+  group by payment_tx_hash
+  having count(*) > 1
+  limit 1;
+  if duplicate is not null then
+    raise exception 'payment_tx_hash % is recorded on more than one job; resolve duplicates before migrating', duplicate;
+  end if;
+end $$;
+
+alter table jobs
+  drop constraint if exists jobs_payment_tx_hash_normalized;
+
+alter table jobs
+  add constraint jobs_payment_tx_hash_normalized check (
+    payment_tx_hash is null or payment_tx_hash = lower(btrim(payment_tx_hash))
+  );
+
+create unique index if not exists idx_jobs_payment_tx_hash_unique
+  on jobs (payment_tx_hash)
+  where payment_tx_hash is not null;
+
+-- migrate:down
+drop index if exists idx_jobs_payment_tx_hash_unique;
+
+alter table jobs
+  drop constraint if exists jobs_payment_tx_hash_normalized;
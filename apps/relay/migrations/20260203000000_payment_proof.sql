@@ -0,0 +1,15 @@
+-- migrate:up
+-- Signed send block (and the block before it) submitted as payment evidence.
+-- The signatures are checked on submission; confirmation is checked later.
+alter table jobs
+  add column if not exists payment_proof jsonb null;
+
+create index if not exists idx_jobs_payment_unconfirmed
+  on jobs (updated_at)
+  where payment_proof is not null and payment_verified_at is null;
+
+-- migrate:down
+drop index if exists idx_jobs_payment_unconfirmed;
+
+alter table jobs
+  drop column if exists payment_proof;
@@ -0,0 +1,62 @@
+-- migrate:up
+-- Buyer-set time after which a result is no longer useful. Jobs still open
+-- when it passes are failed by the relay, even before quote or payment.
+alter table jobs
+  add column if not exists deliver_by timestamptz null;
+
+create index if not exists idx_jobs_deliver_by_open
+  on jobs (deliver_by)
+  where deliver_by is not null
+    and status in ('requested', 'quoted', 'accepted', 'running');
+
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired', 'declined')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+    or (status = 'failed' and error->>'code' = 'deadline_passed')
+  );
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired', 'declined')
+    or payment_tx_hash is not null
+    or (status = 'failed' and error->>'code' = 'deadline_passed')
+  );
+
+-- migrate:down
+-- Unpaid jobs failed on their deadline cannot satisfy the old constraints;
+-- they become expired, which is what they would have been without deadlines.
+update jobs
+set status = 'expired', error = null
+where status = 'failed'
+  and error->>'code' = 'deadline_passed'
+  and (payment_tx_hash is null or quote_amount_raw is null or quote_invoice_address is null);
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired', 'declined')
+    or payment_tx_hash is not null
+  );
+
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired', 'declined')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+  );
+
+drop index if exists idx_jobs_deliver_by_open;
+
+alter table jobs
+  drop column if exists deliver_by;
@@ -0,0 +1,15 @@
+-- migrate:up
+-- Buyer-chosen name for a job, so a resent create (single or batched)
+-- returns the job it already made instead of a duplicate.
+alter table jobs
+  add column if not exists client_reference text null;
+
+create unique index if not exists idx_jobs_buyer_client_reference
+  on jobs (buyer_pubkey, client_reference)
+  where client_reference is not null;
+
+-- migrate:down
+drop index if exists idx_jobs_buyer_client_reference;
+
+alter table jobs
+  drop column if exists client_reference;
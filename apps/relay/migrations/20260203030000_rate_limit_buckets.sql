@@ -0,0 +1,15 @@
+-- migrate:up
+-- Token buckets shared by every relay instance when
+-- RELAY_RATE_LIMIT_STORE=postgres. Unlogged: losing them in a crash only
+-- refills everyone's buckets.
+create unlogged table if not exists rate_limit_buckets (
+  key text primary key,
+  tokens double precision not null,
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists idx_rate_limit_buckets_updated_at
+  on rate_limit_buckets (updated_at);
+
+-- migrate:down
+drop table if exists rate_limit_buckets;
@@ -0,0 +1,31 @@
+-- migrate:up
+do $$
+begin
+  if not exists (select 1 from pg_type where typname = 'account_tier_enum') then
+    create type account_tier_enum as enum ('standard', 'pro', 'unlimited');
+  end if;
+end $$;
+
+-- One row per pubkey with non-default allowances. Pubkeys without a row are
+-- on the standard tier; null columns fall back to the tier's value.
+create table if not exists accounts (
+  pubkey text primary key,
+  tier account_tier_enum not null default 'standard',
+  daily_job_limit integer null check (daily_job_limit >= 0),
+  max_active_offers integer null check (max_active_offers >= 0),
+  max_open_jobs integer null check (max_open_jobs >= 0),
+  rate_limit_max integer null check (rate_limit_max >= 0),
+  rate_limit_strict_max integer null check (rate_limit_strict_max >= 0),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+drop trigger if exists set_accounts_updated_at on accounts;
+create trigger set_accounts_updated_at
+before update on accounts
+for each row execute function set_updated_at();
+
+-- migrate:down
+drop trigger if exists set_accounts_updated_at on accounts;
+drop table if exists accounts;
+drop type if exists account_tier_enum;
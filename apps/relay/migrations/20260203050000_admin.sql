@@ -0,0 +1,88 @@
+-- migrate:up
+alter table accounts
+  add column if not exists banned_at timestamptz null,
+  add column if not exists ban_reason text null;
+
+create index if not exists idx_accounts_banned_at on accounts (banned_at)
+  where banned_at is not null;
+
+-- Taken-down offers are inactive and stay that way until an operator
+-- restores them; sellers cannot reactivate them.
+alter table offers
+  add column if not exists taken_down_at timestamptz null;
+
+-- Operators may fail a job at any open status, before a quote or payment
+-- exists, like the deadline sweeper.
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired', 'declined')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+    or (status = 'failed' and error->>'code' in ('deadline_passed', 'operator_intervention'))
+  );
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired', 'declined')
+    or payment_tx_hash is not null
+    or (status = 'failed' and error->>'code' in ('deadline_passed', 'operator_intervention'))
+  );
+
+-- Append-only record of every operator intervention.
+create table if not exists admin_actions (
+  action_id bigserial primary key,
+  admin_pubkey text not null,
+  action text not null,
+  target_id text not null,
+  reason text not null,
+  details jsonb null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_admin_actions_target on admin_actions (target_id, action_id desc);
+create index if not exists idx_admin_actions_admin on admin_actions (admin_pubkey, action_id desc);
+
+-- migrate:down
+drop table if exists admin_actions;
+
+-- Unpaid jobs failed by an operator cannot satisfy the old constraints; they
+-- become canceled, which is the other outcome an operator could have chosen.
+update jobs
+set status = 'canceled', error = null, result_url = null
+where status = 'failed'
+  and error->>'code' = 'operator_intervention'
+  and (payment_tx_hash is null or quote_amount_raw is null or quote_invoice_address is null);
+
+alter table jobs
+  drop constraint if exists jobs_payment_required;
+
+alter table jobs
+  add constraint jobs_payment_required check (
+    status in ('requested', 'quoted', 'accepted', 'canceled', 'expired', 'declined')
+    or payment_tx_hash is not null
+    or (status = 'failed' and error->>'code' = 'deadline_passed')
+  );
+
+alter table jobs
+  drop constraint if exists jobs_quote_required;
+
+alter table jobs
+  add constraint jobs_quote_required check (
+    status in ('requested', 'canceled', 'expired', 'declined')
+    or (quote_amount_raw is not null and quote_invoice_address is not null)
+    or (status = 'failed' and error->>'code' = 'deadline_passed')
+  );
+
+alter table offers
+  drop column if exists taken_down_at;
+
+drop index if exists idx_accounts_banned_at;
+
+alter table accounts
+  drop column if exists ban_reason,
+  drop column if exists banned_at;
@@ -0,0 +1,23 @@
+-- migrate:up
+-- Last time the confirmer re-checked an unverified proof. Checks go
+-- oldest-first, so proofs the node never confirms cannot starve newer ones.
+alter table jobs
+  add column if not exists payment_checked_at timestamptz null;
+
+drop index if exists idx_jobs_payment_unconfirmed;
+
+create index if not exists idx_jobs_payment_unverified
+  on jobs (payment_checked_at nulls first)
+  where payment_proof is not null
+    and payment_verified_at is null
+    and status in ('accepted', 'running');
+
+-- migrate:down
+drop index if exists idx_jobs_payment_unverified;
+
+create index if not exists idx_jobs_payment_unconfirmed
+  on jobs (updated_at)
+  where payment_proof is not null and payment_verified_at is null;
+
+alter table jobs
+  drop column if exists payment_checked_at;
@@ -0,0 +1,58 @@
+-- migrate:up
+-- Event ids come from the bigserial sequence, so they can commit out of order.
+-- Each writer keeps its id advisory-locked (under the negated id) until it
+-- commits; readers stop below the lowest such id. The 4242002 session lock
+-- only covers handing out an id and is released right away.
+create or replace function allocate_job_event_id()
+returns bigint
+language plpgsql
+as $$
+declare
+  allocated bigint;
+begin
+  perform pg_advisory_lock(4242002);
+  begin
+    allocated := nextval('job_events_event_id_seq');
+    perform pg_advisory_xact_lock(-allocated);
+  exception when others or query_canceled then
+    perform pg_advisory_unlock(4242002);
+    raise;
+  end;
+  perform pg_advisory_unlock(4242002);
+  return allocated;
+end;
+$$;
+
+-- Highest event_id below which no transaction can still commit an event.
+create or replace function job_events_high_water()
+returns bigint
+language plpgsql
+as $$
+declare
+  high_water bigint;
+begin
+  perform pg_advisory_lock(4242002);
+  begin
+    select case when is_called then last_value else last_value - 1 end
+      into high_water
+      from job_events_event_id_seq;
+    select least(high_water, min(-((classid::bigint << 32) | objid::bigint)) - 1)
+      into high_water
+      from pg_locks
+      where locktype = 'advisory'
+        and objsubid = 1
+        and classid >= 2147483648
+        and database = (select oid from pg_database where datname = current_database());
+  exception when others or query_canceled then
+    perform pg_advisory_unlock(4242002);
+    raise;
+  end;
+  perform pg_advisory_unlock(4242002);
+  return high_water;
+end;
+$$;
+
+-- migrate:down
+drop function if exists job_events_high_water();
+
+drop function if exists allocate_job_event_id();
@@ -0,0 +1,139 @@
+import type { Kysely, Selectable } from 'kysely';
+import type { AccountTable, AccountTier, Database, JobStatus } from './db.js';
+
+// Jobs a buyer still has in flight; these count against max_open_jobs.
+export const OPEN_JOB_STATUSES: JobStatus[] = [
+  'requested',
+  'quoted',
+  'accepted',
+  'running'
+];
+
+// Allowances for one pubkey. A null cap means unlimited.
+export type AccountLimits = {
+  tier: AccountTier;
+  daily_jobs: number | null;
+  active_offers: number | null;
+  open_jobs: number | null;
+  rate_limit: number | null;
+  rate_limit_strict: number | null;
+};
+
+// The standard tier; other tiers scale it.
+export type AccountDefaults = Omit<AccountLimits, 'tier'>;
+
+const TIER_MULTIPLIERS: Record<AccountTier, number | null> = {
+  standard: 1,
+  pro: 10,
+  unlimited: null
+};
+
+export const resolveAccountLimits = (
+  account: Selectable<AccountTable> | undefined,
+  defaults: AccountDefaults
+): AccountLimits => {
+  const tier = account?.tier ?? 'standard';
+  const multiplier = TIER_MULTIPLIERS[tier];
+  // A column set on the account wins over its tier.
+  const pick = (override: number | null | undefined, base: number | null) =>
+    override ?? (multiplier === null || base === null ? null : base * multiplier);
+  return {
+    tier,
+    daily_jobs: pick(account?.daily_job_limit, defaults.daily_jobs),
+    active_offers: pick(account?.max_active_offers, defaults.active_offers),
+    open_jobs: pick(account?.max_open_jobs, defaults.open_jobs),
+    rate_limit: pick(account?.rate_limit_max, defaults.rate_limit),
+    rate_limit_strict: pick(
+      account?.rate_limit_strict_max,
+      defaults.rate_limit_strict
+    )
+  };
+};
+
+export type AccountBan = {
+  banned_at: Date;
+  reason: string | null;
+};
+
+// Limits and ban state come from the same row, so authenticating a request
+// costs one lookup.
+export const loadAccount = async (
+  db: Kysely<Database>,
+  pubkey: string,
+  defaults: AccountDefaults
+): Promise<{ limits: AccountLimits; ban: AccountBan | null }> => {
+  const account = await db
+    .selectFrom('accounts')
+    .selectAll()
+    .where('pubkey', '=', pubkey)
+    .executeTakeFirst();
+  return {
+    limits: resolveAccountLimits(account, defaults),
+    ban: account?.banned_at
+      ? { banned_at: account.banned_at, reason: account.ban_reason }
+      : null
+  };
+};
+
+// Daily caps reset at midnight UTC.
+export const quotaDayStart = (now: Date): Date => {
+  const start = new Date(now);
+  start.setUTCHours(0, 0, 0, 0);
+  return start;
+};
+
+export const quotaDayEnd = (now: Date): Date =>
+  new Date(quotaDayStart(now).getTime() + 24 * 60 * 60 * 1000);
+
+const count = (row: { count: string | number | bigint } | undefined) =>
+  Number(row?.count ?? 0);
+
+export const countJobsCreatedToday = async (
+  db: Kysely<Database>,
+  buyerPubkey: string,
+  now: Date
+) =>
+  count(
+    await db
+      .selectFrom('jobs')
+      .select((eb) => eb.fn.countAll().as('count'))
+      .where('buyer_pubkey', '=', buyerPubkey)
+      .where('created_at', '>=', quotaDayStart(now))
+      .executeTakeFirst()
+  );
+
+export const countOpenJobs = async (db: Kysely<Database>, buyerPubkey: string) =>
+  count(
+    await db
+      .selectFrom('jobs')
+      .select((eb) => eb.fn.countAll().as('count'))
+      .where('buyer_pubkey', '=', buyerPubkey)
+      .where('status', 'in', OPEN_JOB_STATUSES)
+      .executeTakeFirst()
+  );
+
+export const countActiveOffers = async (
+  db: Kysely<Database>,
+  sellerPubkey: string
+) =>
+  count(
+    await db
+      .selectFrom('offers')
+      .select((eb) => eb.fn.countAll().as('count'))
+      .where('seller_pubkey', '=', sellerPubkey)
+      .where('active', '=', true)
+      .where('deleted_at', 'is', null)
+      .executeTakeFirst()
+  );
+
+export type QuotaUsage = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+};
+
+export const quotaUsage = (limit: number | null, used: number): QuotaUsage => ({
+  limit,
+  used,
+  remaining: limit === null ? null : Math.max(0, limit - used)
+});
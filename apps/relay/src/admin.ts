@@ -0,0 +1,49 @@
+import type { Selectable, Transaction } from 'kysely';
+import type {
+  AdminAction,
+  AdminActionTable,
+  Database,
+  JobStatus,
+  JsonValue
+} from './db.js';
+
+export const ADMIN_ACTIONS = [
+  'job.transition',
+  'offer.takedown',
+  'offer.restore',
+  'pubkey.ban',
+  'pubkey.unban'
+] as const satisfies readonly AdminAction[];
+
+// Statuses an operator may force an open job into. Both are terminal, so a
+// forced transition can never leave a job half-way through the lifecycle.
+export const ADMIN_JOB_STATUSES = [
+  'failed',
+  'canceled'
+] as const satisfies readonly JobStatus[];
+
+export type AdminActionRow = Selectable<AdminActionTable>;
+
+// Written in the caller's transaction, so an intervention and its audit row
+// commit together.
+export const recordAdminAction = (
+  trx: Transaction<Database>,
+  input: {
+    adminPubkey: string;
+    action: AdminAction;
+    targetId: string;
+    reason: string;
+    details?: { [key: string]: JsonValue };
+  }
+): Promise<AdminActionRow> =>
+  trx
+    .insertInto('admin_actions')
+    .values({
+      admin_pubkey: input.adminPubkey,
+      action: input.action,
+      target_id: input.targetId,
+      reason: input.reason,
+      details: input.details ?? null
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
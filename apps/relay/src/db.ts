@@ -1,5 +1,11 @@
-import { Kysely, PostgresDialect, type ColumnType } from 'kysely';
-import { Pool } from 'pg';
+import {
+  Kysely,
+  PostgresDialect,
+  type ColumnType,
+  type Generated,
+  type LogEvent
+} from 'kysely';
+import { Client, Pool } from 'pg';
 
 export type JsonValue =
   | null
@@ -20,7 +26,22 @@ export type JobStatus =
   | 'delivered'
   | 'failed'
   | 'canceled'
-  | 'expired';
+  | 'expired'
+  | 'declined';
+
+export type JobEventType =
+  | `job.${JobStatus}`
+  | 'job.payment_submitted'
+  | 'job.quote_rejected';
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+export type JobQuoteStatus = 'open' | 'accepted' | 'rejected';
+export type AccountTier = 'standard' | 'pro' | 'unlimited';
+export type AdminAction =
+  | 'job.transition'
+  | 'offer.takedown'
+  | 'offer.restore'
+  | 'pubkey.ban'
+  | 'pubkey.unban';
 
 export interface OfferTable {
   offer_id: string;
@@ -30,13 +51,33 @@ export interface OfferTable {
   tags: string[];
   pricing_mode: PricingMode;
   fixed_price_raw: string | null;
+  request_schema: JsonColumn | null;
   active: boolean;
   created_at: Date;
+  updated_at: Generated<Date>;
+  deleted_at: Date | null;
+  taken_down_at: Date | null;
+  version: Generated<number>;
+  search_vector: ColumnType<string, never, never>;
+}
+
+export interface OfferVersionTable {
+  offer_id: string;
+  version: number;
+  title: string;
+  description: string;
+  tags: string[];
+  pricing_mode: PricingMode;
+  fixed_price_raw: string | null;
+  request_schema: JsonColumn | null;
+  created_at: Generated<Date>;
 }
 
 export interface JobTable {
   job_id: string;
   offer_id: string;
+  offer_version: number | null;
+  offer_snapshot: JsonColumn | null;
   seller_pubkey: string;
   buyer_pubkey: string;
   status: JobStatus;
@@ -44,26 +85,123 @@ export interface JobTable {
   quote_amount_raw: string | null;
   quote_invoice_address: string | null;
   quote_expires_at: Date | null;
+  accepted_at: Date | null;
+  deliver_by: Date | null;
+  client_reference: string | null;
   payment_tx_hash: string | null;
   payment_charge_id: string | null;
   payment_charge_address: string | null;
   payment_provider: string | null;
   payment_sweep_tx_hash: string | null;
+  payment_verified_at: Date | null;
+  payment_checked_at: Date | null;
+  payment_proof: JsonColumn | null;
   lock_owner: string | null;
   lock_expires_at: Date | null;
+  lock_token: Generated<number>;
+  attempts: Generated<number>;
+  max_attempts: Generated<number>;
   result_url: string | null;
   result_payload: JsonColumn | null;
   error: JsonColumn | null;
+  progress: JsonColumn | null;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface JobQuoteTable {
+  job_id: string;
+  revision: number;
+  quote_amount_raw: string;
+  quote_invoice_address: string;
+  quote_expires_at: Date | null;
+  status: Generated<JobQuoteStatus>;
+  counter_amount_raw: string | null;
+  response_message: string | null;
+  responded_at: Date | null;
+  created_at: Generated<Date>;
+}
+
+export interface JobProgressTable {
+  progress_id: Generated<string>;
+  job_id: string;
+  percent: number | null;
+  stage: string | null;
+  message: string | null;
+  created_at: Generated<Date>;
+}
+
+export interface JobEventTable {
+  event_id: Generated<string>;
+  job_id: string;
+  seller_pubkey: string;
+  buyer_pubkey: string;
+  type: JobEventType;
+  from_status: JobStatus | null;
+  to_status: JobStatus;
+  created_at: Generated<Date>;
+}
+
+export interface WebhookTable {
+  webhook_id: Generated<string>;
+  pubkey: string;
+  url: string;
+  event_types: JobEventType[] | null;
+  created_at: Generated<Date>;
+}
+
+export interface WebhookDeliveryTable {
+  delivery_id: Generated<string>;
+  webhook_id: string;
+  event_id: string;
+  event_type: JobEventType;
+  payload: JsonColumn;
+  status: Generated<WebhookDeliveryStatus>;
+  attempts: Generated<number>;
+  next_attempt_at: Generated<Date>;
+  last_attempt_at: Date | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: Date | null;
+  created_at: Generated<Date>;
+}
+
 export interface NonceTable {
   pubkey: string;
   nonce: string;
   created_at: Date;
 }
 
+export interface AccountTable {
+  pubkey: string;
+  tier: Generated<AccountTier>;
+  daily_job_limit: number | null;
+  max_active_offers: number | null;
+  max_open_jobs: number | null;
+  rate_limit_max: number | null;
+  rate_limit_strict_max: number | null;
+  banned_at: Date | null;
+  ban_reason: string | null;
+  created_at: Generated<Date>;
+  updated_at: Generated<Date>;
+}
+
+export interface AdminActionTable {
+  action_id: Generated<string>;
+  admin_pubkey: string;
+  action: AdminAction;
+  target_id: string;
+  reason: string;
+  details: JsonColumn | null;
+  created_at: Generated<Date>;
+}
+
+export interface RateLimitBucketTable {
+  key: string;
+  tokens: number;
+  updated_at: Generated<Date>;
+}
+
 export interface IdempotencyTable {
   pubkey: string;
   idempotency_key: string;
@@ -75,14 +213,48 @@ export interface IdempotencyTable {
 
 export interface Database {
   offers: OfferTable;
+  offer_versions: OfferVersionTable;
   jobs: JobTable;
+  job_quotes: JobQuoteTable;
+  job_progress: JobProgressTable;
+  job_events: JobEventTable;
+  webhooks: WebhookTable;
+  webhook_deliveries: WebhookDeliveryTable;
   nonces: NonceTable;
   idempotency_keys: IdempotencyTable;
+  rate_limit_buckets: RateLimitBucketTable;
+  accounts: AccountTable;
+  admin_actions: AdminActionTable;
 }
 
-export const createDb = (databaseUrl: string) =>
+export type NotificationMessage = {
+  channel: string;
+  payload?: string;
+};
+
+export type NotificationClient = {
+  connect: () => Promise<void>;
+  query: (text: string) => Promise<unknown>;
+  on: {
+    (event: 'notification', listener: (message: NotificationMessage) => void): void;
+    (event: 'error', listener: (error: Error) => void): void;
+    (event: 'end', listener: () => void): void;
+  };
+  removeAllListeners: () => void;
+  end: () => Promise<void>;
+};
+
+export const createNotificationClient = (
+  databaseUrl: string
+): NotificationClient => new Client({ connectionString: databaseUrl });
+
+export const createDb = (
+  databaseUrl: string,
+  options: { onQuery?: (event: LogEvent) => void } = {}
+) =>
   new Kysely<Database>({
     dialect: new PostgresDialect({
       pool: new Pool({ connectionString: databaseUrl })
-    })
+    }),
+    log: options.onQuery
   });
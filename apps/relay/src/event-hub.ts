@@ -0,0 +1,133 @@
+import type { FastifyBaseLogger } from 'fastify';
+import type { NotificationClient } from './db.js';
+import { JOB_EVENTS_CHANNEL, type JobEventNotice } from './events.js';
+
+type NoticeListener = (notice: JobEventNotice) => void;
+
+export type EventHubOptions = {
+  connect: () => NotificationClient;
+  log: FastifyBaseLogger;
+  reconnectMs: number;
+};
+
+export type EventHub = {
+  subscribe: (pubkey: string, listener: NoticeListener) => () => void;
+  close: () => Promise<void>;
+};
+
+const parseNotice = (payload: string | undefined): JobEventNotice | null => {
+  if (!payload) return null;
+  try {
+    const parsed = JSON.parse(payload) as Partial<JobEventNotice>;
+    if (
+      typeof parsed.event_id !== 'string' ||
+      typeof parsed.seller_pubkey !== 'string' ||
+      typeof parsed.buyer_pubkey !== 'string'
+    ) {
+      return null;
+    }
+    return parsed as JobEventNotice;
+  } catch {
+    return null;
+  }
+};
+
+// Fans out Postgres job_events notifications to subscribers keyed by pubkey,
+// so every relay instance hears events committed by any other instance.
+export const createEventHub = (options: EventHubOptions): EventHub => {
+  const { log } = options;
+  const listeners = new Map<string, Set<NoticeListener>>();
+  let client: NotificationClient | null = null;
+  let connecting = false;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
+
+  const dispatch = (notice: JobEventNotice) => {
+    const pubkeys = new Set([notice.seller_pubkey, notice.buyer_pubkey]);
+    for (const pubkey of pubkeys) {
+      const subscribers = listeners.get(pubkey);
+      if (!subscribers) continue;
+      for (const listener of subscribers) {
+        listener(notice);
+      }
+    }
+  };
+
+  const dropClient = (target: NotificationClient) => {
+    if (client !== target) return;
+    client = null;
+    target.removeAllListeners();
+    void target.end().catch(() => undefined);
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer || listeners.size === 0) return;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      ensureListening();
+    }, options.reconnectMs);
+    reconnectTimer.unref();
+  };
+
+  const ensureListening = () => {
+    if (closed || client || connecting) return;
+    connecting = true;
+    const next = options.connect();
+    next.on('notification', (message) => {
+      if (message.channel !== JOB_EVENTS_CHANNEL) return;
+      const notice = parseNotice(message.payload);
+      if (notice) dispatch(notice);
+    });
+    next.on('error', (error) => {
+      log.warn({ err: error }, 'events.listener_error');
+      dropClient(next);
+      scheduleReconnect();
+    });
+    next.on('end', () => {
+      dropClient(next);
+      scheduleReconnect();
+    });
+    client = next;
+    void (async () => {
+      try {
+        await next.connect();
+        await next.query(`listen ${JOB_EVENTS_CHANNEL}`);
+      } catch (error) {
+        log.warn({ err: error }, 'events.listener_connect_failed');
+        dropClient(next);
+        scheduleReconnect();
+      } finally {
+        connecting = false;
+      }
+    })();
+  };
+
+  return {
+    subscribe: (pubkey, listener) => {
+      const subscribers = listeners.get(pubkey) ?? new Set<NoticeListener>();
+      subscribers.add(listener);
+      listeners.set(pubkey, subscribers);
+      ensureListening();
+      return () => {
+        subscribers.delete(listener);
+        if (subscribers.size === 0) {
+          listeners.delete(pubkey);
+        }
+      };
+    },
+    close: async () => {
+      closed = true;
+      listeners.clear();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+        reconnectTimer = null;
+      }
+      const current = client;
+      client = null;
+      if (current) {
+        current.removeAllListeners();
+        await current.end().catch(() => undefined);
+      }
+    }
+  };
+};
@@ -0,0 +1,112 @@
+import { sql, type Kysely, type Selectable, type Transaction } from 'kysely';
+import type {
+  Database,
+  JobEventTable,
+  JobEventType,
+  JobStatus
+} from './db.js';
+
+export const JOB_EVENTS_CHANNEL = 'job_events';
+
+export type JobEvent = Selectable<JobEventTable>;
+
+export const JOB_EVENT_TYPES = [
+  'job.requested',
+  'job.quoted',
+  'job.accepted',
+  'job.payment_submitted',
+  'job.quote_rejected',
+  'job.running',
+  'job.delivered',
+  'job.failed',
+  'job.canceled',
+  'job.expired',
+  'job.declined'
+] as const satisfies readonly JobEventType[];
+
+export type JobEventNotice = {
+  event_id: string;
+  seller_pubkey: string;
+  buyer_pubkey: string;
+};
+
+export const jobEventTypeForStatus = (status: JobStatus): JobEventType =>
+  `job.${status}`;
+
+export const insertJobEvent = async (
+  trx: Transaction<Database>,
+  input: {
+    job: {
+      job_id: string;
+      seller_pubkey: string;
+      buyer_pubkey: string;
+    };
+    type: JobEventType;
+    fromStatus: JobStatus | null;
+    toStatus: JobStatus;
+  }
+): Promise<JobEvent> => {
+  const event = await trx
+    .insertInto('job_events')
+    .values({
+      // Marks the id as in flight until commit; see jobEventsHighWater.
+      event_id: sql<string>`allocate_job_event_id()`,
+      job_id: input.job.job_id,
+      seller_pubkey: input.job.seller_pubkey,
+      buyer_pubkey: input.job.buyer_pubkey,
+      type: input.type,
+      from_status: input.fromStatus,
+      to_status: input.toStatus
+    })
+    .returningAll()
+    .executeTakeFirstOrThrow();
+  // Delivered to listeners on commit, so streams never see uncommitted events.
+  const notice: JobEventNotice = {
+    event_id: event.event_id,
+    seller_pubkey: event.seller_pubkey,
+    buyer_pubkey: event.buyer_pubkey
+  };
+  await sql`select pg_notify(${JOB_EVENTS_CHANNEL}, ${JSON.stringify(notice)})`.execute(
+    trx
+  );
+  // Queued in the same transaction, so a committed event always has its
+  // webhook deliveries and a rolled-back one never does.
+  await sql`
+    insert into webhook_deliveries (webhook_id, event_id, event_type, payload)
+    select webhook_id, ${event.event_id}, ${event.type}, ${JSON.stringify(
+      toPublicJobEvent(event)
+    )}::jsonb
+    from webhooks
+    where pubkey in (${event.seller_pubkey}, ${event.buyer_pubkey})
+      and (event_types is null or ${event.type} = any(event_types))
+  `.execute(trx);
+  return event;
+};
+
+// Event N+1 can commit before event N, so a reader paging with `after` must
+// not read past ids that may still commit, or it would skip N forever. Read
+// in its own statement, before the events query: every id up to the result
+// has finished by then, so the later query's snapshot sees all that committed.
+// Each call briefly takes the id-allocation lock and scans pg_locks.
+export const readJobEventsHighWater = async (
+  db: Kysely<Database>
+): Promise<string> => {
+  const result = await sql<{ high_water: string }>`
+    select job_events_high_water() as high_water
+  `.execute(db);
+  return result.rows[0]?.high_water ?? '0';
+};
+
+export const toPublicJobEvent = (event: JobEvent) => ({
+  event_id: event.event_id,
+  job_id: event.job_id,
+  type: event.type,
+  from_status: event.from_status,
+  to_status: event.to_status,
+  created_at: event.created_at
+});
+
+export const formatSseEvent = (event: JobEvent): string =>
+  `id: ${event.event_id}\nevent: ${event.type}\ndata: ${JSON.stringify(
+    toPublicJobEvent(event)
+  )}\n\n`;
@@ -0,0 +1,273 @@
+import type { FastifyBaseLogger } from 'fastify';
+import {
+  sql,
+  type Kysely,
+  type Selectable,
+  type Transaction
+} from 'kysely';
+import type { Database, JobStatus, JobTable } from './db.js';
+
+// Shared key so only one relay instance sweeps at a time.
+const EXPIRY_SWEEP_LOCK_KEY = 4_242_001;
+
+const DEADLINE_STATUSES = ['requested', 'quoted', 'accepted', 'running'] as const;
+
+export type SweptJob = Selectable<JobTable>;
+
+export type ExpirySweepResult = {
+  skipped: boolean;
+  missedDeadlines: number;
+  expiredQuotes: number;
+  expiredAcceptances: number;
+  releasedLocks: number;
+  failedLocks: number;
+  purgedEvents: number;
+  purgedDeliveries: number;
+};
+
+export type ExpirySweeperOptions = {
+  db: Kysely<Database>;
+  log: FastifyBaseLogger;
+  intervalMs: number;
+  paymentTtlMs: number;
+  lockTtlMs: number;
+  eventRetentionMs: number;
+  onTransition: (
+    trx: Transaction<Database>,
+    job: SweptJob,
+    fromStatus: JobStatus,
+    toStatus: JobStatus
+  ) => void | Promise<void>;
+  onLockExpired?: (job: SweptJob, outcome: 'released' | 'failed') => void;
+};
+
+export type ExpirySweeper = {
+  sweep: () => Promise<ExpirySweepResult>;
+  start: () => void;
+  stop: () => void;
+};
+
+export const createExpirySweeper = (
+  options: ExpirySweeperOptions
+): ExpirySweeper => {
+  const { db, log } = options;
+  let timer: NodeJS.Timeout | null = null;
+  let sweeping = false;
+
+  const sweep = async (): Promise<ExpirySweepResult> => {
+    const nowTime = new Date();
+    const paymentCutoff = new Date(nowTime.getTime() - options.paymentTtlMs);
+    const eventCutoff = new Date(nowTime.getTime() - options.eventRetentionMs);
+    const idleCutoff = new Date(nowTime.getTime() - options.lockTtlMs);
+
+    const swept = await db.transaction().execute(async (trx) => {
+      const lock = await sql<{ locked: boolean }>`
+        select pg_try_advisory_xact_lock(${EXPIRY_SWEEP_LOCK_KEY}) as locked
+      `.execute(trx);
+      if (!lock.rows[0]?.locked) return null;
+
+      // A passed deliver_by wins over every other timeout: the buyer no longer
+      // wants the result, whatever stage the job reached. One update per
+      // status keeps each job's from-status for its transition event.
+      const missedDeadlines: Array<[JobStatus, SweptJob[]]> = [];
+      for (const status of DEADLINE_STATUSES) {
+        const failed = await trx
+          .updateTable('jobs')
+          .set({
+            status: 'failed',
+            lock_owner: null,
+            lock_expires_at: null,
+            result_url: null,
+            error: sql`jsonb_build_object(
+              'code', 'deadline_passed',
+              'message', 'Delivery deadline passed before the job was delivered',
+              'details', jsonb_build_object('deliver_by', deliver_by)
+            )`
+          })
+          .where('status', '=', status)
+          .where('deliver_by', '<=', nowTime)
+          .returningAll()
+          .execute();
+        missedDeadlines.push([status, failed]);
+      }
+
+      const expiredQuotes = await trx
+        .updateTable('jobs')
+        .set({ status: 'expired' })
+        .where('status', '=', 'quoted')
+        .where((eb) =>
+          eb.or([
+            eb('quote_expires_at', 'is', null),
+            eb('quote_expires_at', '<=', nowTime)
+          ])
+        )
+        .returningAll()
+        .execute();
+
+      const expiredAcceptances = await trx
+        .updateTable('jobs')
+        .set({ status: 'expired' })
+        .where('status', '=', 'accepted')
+        .where('payment_tx_hash', 'is', null)
+        .where(sql<boolean>`coalesce(accepted_at, updated_at) <= ${paymentCutoff}`)
+        .returningAll()
+        .execute();
+
+      // An expired lease counts as a failed attempt, and so does each further
+      // lock TTL a running job then spends without a lease (lock_expires_at
+      // keeps the time the last window closed; unlocked jobs fall back to
+      // updated_at). The last allowed attempt fails the job so the buyer is
+      // not left waiting on a dead seller.
+      const leaseLapsed = sql<boolean>`(
+        (lock_owner is not null and lock_expires_at <= ${nowTime})
+        or (lock_owner is null and coalesce(lock_expires_at, updated_at) <= ${idleCutoff})
+      )`;
+      const failedLocks = await trx
+        .updateTable('jobs')
+        .set((eb) => ({
+          status: 'failed',
+          attempts: eb('attempts', '+', 1),
+          lock_owner: null,
+          lock_expires_at: null,
+          result_url: null,
+          error: sql`jsonb_build_object(
+            'code', 'lock_expired',
+            'message', 'Seller lock expired without a delivery',
+            'details', jsonb_build_object('attempts', attempts + 1)
+          )`
+        }))
+        .where('status', '=', 'running')
+        .where(leaseLapsed)
+        .where(sql<boolean>`attempts + 1 >= max_attempts`)
+        .returningAll()
+        .execute();
+
+      const releasedLocks = await trx
+        .updateTable('jobs')
+        .set((eb) => ({
+          attempts: eb('attempts', '+', 1),
+          lock_owner: null,
+          lock_expires_at: nowTime
+        }))
+        .where('status', '=', 'running')
+        .where(leaseLapsed)
+        .returningAll()
+        .execute();
+
+      for (const [fromStatus, jobs] of missedDeadlines) {
+        for (const job of jobs) {
+          await options.onTransition(trx, job, fromStatus, job.status);
+        }
+      }
+      for (const job of expiredQuotes) {
+        await options.onTransition(trx, job, 'quoted', job.status);
+      }
+      for (const job of expiredAcceptances) {
+        await options.onTransition(trx, job, 'accepted', job.status);
+      }
+      for (const job of failedLocks) {
+        await options.onTransition(trx, job, 'running', job.status);
+      }
+
+      const purged = await trx
+        .deleteFrom('job_events')
+        .where('created_at', '<', eventCutoff)
+        .executeTakeFirst();
+      const purgedDeliveries = await trx
+        .deleteFrom('webhook_deliveries')
+        .where('status', '!=', 'pending')
+        .where('created_at', '<', eventCutoff)
+        .executeTakeFirst();
+
+      return {
+        missedDeadlines: missedDeadlines.reduce(
+          (total, [, jobs]) => total + jobs.length,
+          0
+        ),
+        expiredQuotes,
+        expiredAcceptances,
+        releasedLocks,
+        failedLocks,
+        purgedEvents: Number(purged.numDeletedRows ?? 0),
+        purgedDeliveries: Number(purgedDeliveries.numDeletedRows ?? 0)
+      };
+    });
+
+    if (!swept) {
+      return {
+        skipped: true,
+        missedDeadlines: 0,
+        expiredQuotes: 0,
+        expiredAcceptances: 0,
+        releasedLocks: 0,
+        failedLocks: 0,
+        purgedEvents: 0,
+        purgedDeliveries: 0
+      };
+    }
+
+    for (const job of swept.releasedLocks) {
+      log.info(
+        {
+          job_id: job.job_id,
+          seller_pubkey: job.seller_pubkey,
+          buyer_pubkey: job.buyer_pubkey,
+          attempts: job.attempts
+        },
+        'job.lock_released'
+      );
+      options.onLockExpired?.(job, 'released');
+    }
+    for (const job of swept.failedLocks) {
+      log.warn(
+        {
+          job_id: job.job_id,
+          seller_pubkey: job.seller_pubkey,
+          buyer_pubkey: job.buyer_pubkey,
+          attempts: job.attempts
+        },
+        'job.lock_attempts_exhausted'
+      );
+      options.onLockExpired?.(job, 'failed');
+    }
+
+    return {
+      skipped: false,
+      missedDeadlines: swept.missedDeadlines,
+      expiredQuotes: swept.expiredQuotes.length,
+      expiredAcceptances: swept.expiredAcceptances.length,
+      releasedLocks: swept.releasedLocks.length,
+      failedLocks: swept.failedLocks.length,
+      purgedEvents: swept.purgedEvents,
+      purgedDeliveries: swept.purgedDeliveries
+    };
+  };
+
+  const tick = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      await sweep();
+    } catch (error) {
+      log.error({ err: error }, 'expiry.sweep_failed');
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  return {
+    sweep,
+    start: () => {
+      if (timer || options.intervalMs <= 0) return;
+      timer = setInterval(() => {
+        void tick();
+      }, options.intervalMs);
+      timer.unref();
+    },
+    stop: () => {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+};
@@ -1,9 +1,15 @@
+import { initTracing } from '@nanobazaar/shared';
 import { buildServer } from './server.js';
 
+const tracing = initTracing({ serviceName: 'nanobazaar-relay' });
 const server = await buildServer();
 const port = Number(process.env.PORT ?? 3000);
 const host = process.env.HOST ?? '0.0.0.0';
 
+server.addHook('onClose', async () => {
+  await tracing?.shutdown();
+});
+
 try {
   await server.listen({ port, host });
 } catch (err) {
@@ -0,0 +1,196 @@
+export type MetricLabels = Record<string, string>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+type Histogram = {
+  buckets: number[];
+  sum: number;
+  count: number;
+};
+
+type Series<T> = {
+  name: string;
+  labels: MetricLabels;
+  value: T;
+};
+
+export type HistogramSnapshot = {
+  count: number;
+  sum: number;
+  buckets: Record<string, number>;
+};
+
+export type MetricsSnapshot = {
+  counters: Record<string, number>;
+  gauges: Record<string, number>;
+  histograms: Record<string, HistogramSnapshot>;
+};
+
+export type Metrics = {
+  inc: (name: string, labels?: MetricLabels, value?: number) => void;
+  set: (name: string, labels: MetricLabels, value: number) => void;
+  observe: (name: string, labels: MetricLabels, value: number) => void;
+  snapshot: () => MetricsSnapshot;
+  toPrometheus: () => string;
+};
+
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const METRIC_PREFIX = 'nanobazaar_';
+
+// Seconds; spans fast indexed reads up to slow webhook-heavy requests.
+export const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10
+];
+
+// The JSON snapshot has always been keyed this way, so dashboards built on
+// it keep working.
+export const formatMetricKey = (name: string, labels?: MetricLabels): string => {
+  if (!labels || Object.keys(labels).length === 0) return name;
+  const parts = Object.entries(labels)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}=${value}`);
+  return `${name}{${parts.join(',')}}`;
+};
+
+const prometheusName = (name: string): string =>
+  METRIC_PREFIX + name.replace(/[^a-zA-Z0-9_]/g, '_');
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const parts = Object.entries(labels)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`);
+  return parts.length > 0 ? `{${parts.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string => {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return Number.isNaN(value) ? 'NaN' : String(value);
+};
+
+export const createMetrics = (
+  options: { buckets?: number[] } = {}
+): Metrics => {
+  const bounds = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  const types = new Map<string, MetricType>();
+  const counters = new Map<string, Series<number>>();
+  const gauges = new Map<string, Series<number>>();
+  const histograms = new Map<string, Series<Histogram>>();
+
+  // A name is bound to the first type it is used as; Prometheus rejects a
+  // family that mixes types, so a mismatch is a programming error.
+  const claim = (name: string, type: MetricType) => {
+    const existing = types.get(name);
+    if (existing && existing !== type) {
+      throw new Error(`Metric ${name} is a ${existing}, not a ${type}`);
+    }
+    types.set(name, type);
+  };
+
+  const seriesFor = <T>(
+    store: Map<string, Series<T>>,
+    name: string,
+    labels: MetricLabels,
+    initial: () => T
+  ): Series<T> => {
+    const key = formatMetricKey(name, labels);
+    let series = store.get(key);
+    if (!series) {
+      series = { name, labels: { ...labels }, value: initial() };
+      store.set(key, series);
+    }
+    return series;
+  };
+
+  const snapshot = (): MetricsSnapshot => {
+    const result: MetricsSnapshot = { counters: {}, gauges: {}, histograms: {} };
+    for (const [key, series] of counters) result.counters[key] = series.value;
+    for (const [key, series] of gauges) result.gauges[key] = series.value;
+    for (const [key, series] of histograms) {
+      const buckets: Record<string, number> = {};
+      bounds.forEach((bound, index) => {
+        buckets[formatValue(bound)] = series.value.buckets[index] ?? 0;
+      });
+      buckets['+Inf'] = series.value.count;
+      result.histograms[key] = {
+        count: series.value.count,
+        sum: series.value.sum,
+        buckets
+      };
+    }
+    return result;
+  };
+
+  const toPrometheus = (): string => {
+    const families = new Map<string, string[]>();
+    const lines = (name: string) => {
+      let family = families.get(name);
+      if (!family) {
+        family = [];
+        families.set(name, family);
+      }
+      return family;
+    };
+    for (const series of counters.values()) {
+      lines(series.name).push(
+        `${prometheusName(series.name)}_total${formatLabels(series.labels)} ${formatValue(series.value)}`
+      );
+    }
+    for (const series of gauges.values()) {
+      lines(series.name).push(
+        `${prometheusName(series.name)}${formatLabels(series.labels)} ${formatValue(series.value)}`
+      );
+    }
+    for (const series of histograms.values()) {
+      const base = prometheusName(series.name);
+      const family = lines(series.name);
+      bounds.forEach((bound, index) => {
+        family.push(
+          `${base}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${series.value.buckets[index] ?? 0}`
+        );
+      });
+      family.push(
+        `${base}_bucket${formatLabels({ ...series.labels, le: '+Inf' })} ${series.value.count}`,
+        `${base}_sum${formatLabels(series.labels)} ${formatValue(series.value.sum)}`,
+        `${base}_count${formatLabels(series.labels)} ${series.value.count}`
+      );
+    }
+    const output: string[] = [];
+    for (const name of [...families.keys()].sort()) {
+      const type = types.get(name) ?? 'untyped';
+      const exposed = prometheusName(name) + (type === 'counter' ? '_total' : '');
+      output.push(`# TYPE ${exposed} ${type}`, ...(families.get(name) ?? []));
+    }
+    return output.length > 0 ? `${output.join('\n')}\n` : '';
+  };
+
+  return {
+    inc: (name, labels = {}, value = 1) => {
+      claim(name, 'counter');
+      seriesFor(counters, name, labels, () => 0).value += value;
+    },
+    set: (name, labels, value) => {
+      claim(name, 'gauge');
+      seriesFor(gauges, name, labels, () => 0).value = value;
+    },
+    observe: (name, labels, value) => {
+      claim(name, 'histogram');
+      const histogram = seriesFor(histograms, name, labels, () => ({
+        buckets: bounds.map(() => 0),
+        sum: 0,
+        count: 0
+      })).value;
+      bounds.forEach((bound, index) => {
+        if (value <= bound) histogram.buckets[index] = (histogram.buckets[index] ?? 0) + 1;
+      });
+      histogram.sum += value;
+      histogram.count += 1;
+    },
+    snapshot,
+    toPrometheus
+  };
+};
@@ -0,0 +1,61 @@
+import { sql, type RawBuilder } from 'kysely';
+import { z } from 'zod';
+
+const MAX_CURSOR_LEN = 256;
+
+// The first element records which listing order the cursor was issued for; a
+// cursor is only valid for that order.
+const CursorSchema = z.tuple([
+  z.enum(['jobs_created_desc', 'jobs_updated_asc', 'offers_created_desc']),
+  z.string().regex(/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}\.\d{6}Z$/),
+  z.string().uuid()
+]);
+
+export type CursorOrder = z.infer<typeof CursorSchema>[0];
+
+export type Cursor = {
+  order: CursorOrder;
+  at: string;
+  id: string;
+};
+
+// Formats a timestamptz with full microsecond precision. JS dates stop at
+// milliseconds, which would make rows sharing a millisecond skip or repeat.
+export const cursorTimestamp = (column: string): RawBuilder<string> =>
+  sql<string>`to_char(${sql.ref(
+    column
+  )} at time zone 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"')`;
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify([cursor.order, cursor.at, cursor.id])).toString(
+    'base64url'
+  );
+
+export const decodeCursor = (value: string): Cursor | null => {
+  if (value.length === 0 || value.length > MAX_CURSOR_LEN) return null;
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+  } catch {
+    return null;
+  }
+  const parsed = CursorSchema.safeParse(decoded);
+  if (!parsed.success) return null;
+  const [order, at, id] = parsed.data;
+  return { order, at, id };
+};
+
+// Keyset condition for rows strictly after the cursor in the given direction.
+// Callers must order by (timestampColumn, idColumn) in the same direction.
+export const afterCursor = (
+  timestampColumn: string,
+  idColumn: string,
+  direction: 'asc' | 'desc',
+  cursor: Cursor
+): RawBuilder<boolean> => {
+  const row = sql`(${sql.ref(timestampColumn)}, ${sql.ref(idColumn)})`;
+  const position = sql`(${cursor.at}::timestamptz, ${cursor.id}::uuid)`;
+  return direction === 'asc'
+    ? sql<boolean>`${row} > ${position}`
+    : sql<boolean>`${row} < ${position}`;
+};
@@ -0,0 +1,245 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { sql, type Kysely, type Selectable, type Transaction } from 'kysely';
+import {
+  NanoRpcClient,
+  PaymentVerifier,
+  type PaymentJob,
+  type VerificationResult
+} from '@nanobazaar/shared';
+import type { Database, JobStatus, JobTable } from './db.js';
+
+// Anything that can check one submitted block against a job's quote. The
+// default talks to a Nano node; tests pass a verifier over a stub RPC.
+export type RelayPaymentVerifier = {
+  verifyHash: (job: PaymentJob, hash: string) => Promise<VerificationResult>;
+};
+
+export type PaymentRejection = {
+  status: number;
+  code: string;
+  message: string;
+};
+
+const REJECTIONS: Record<string, PaymentRejection> = {
+  'payment.not_found': {
+    status: 400,
+    code: 'payment.not_found',
+    message: 'Payment block not found'
+  },
+  'payment.not_send': {
+    status: 400,
+    code: 'payment.not_send',
+    message: 'Payment block is not a send'
+  },
+  'payment.address_mismatch': {
+    status: 400,
+    code: 'payment.address_mismatch',
+    message: 'Payment was not sent to the quote invoice address'
+  },
+  'payment.amount_mismatch': {
+    status: 400,
+    code: 'payment.amount_mismatch',
+    message: 'Payment amount is below the quote amount'
+  },
+  'payment.amount_invalid': {
+    status: 400,
+    code: 'payment.amount_invalid',
+    message: 'Payment amount is invalid'
+  },
+  'payment.proof_invalid': {
+    status: 400,
+    code: 'payment.proof_invalid',
+    message: 'Payment proof is not a valid block pair'
+  },
+  'payment.bad_signature': {
+    status: 400,
+    code: 'payment.bad_signature',
+    message: 'Payment block signature is invalid'
+  },
+  'payment.hash_mismatch': {
+    status: 400,
+    code: 'payment.hash_mismatch',
+    message: 'payment_tx_hash does not match the signed block'
+  },
+  'payment.hash_reused': {
+    status: 409,
+    code: 'payment.hash_reused',
+    message: 'Payment hash already used for another job'
+  },
+  'payment.unconfirmed': {
+    status: 409,
+    code: 'payment.unconfirmed',
+    message: 'Payment block is not confirmed yet'
+  },
+  'payment.missing_quote': {
+    status: 409,
+    code: 'invalid_state',
+    message: 'Job has no quote to pay'
+  },
+  'wallet.rpc_unavailable': {
+    status: 503,
+    code: 'payment.verifier_unavailable',
+    message: 'Payment verification unavailable'
+  }
+};
+
+export const paymentRejection = (reason: string): PaymentRejection =>
+  REJECTIONS[reason] ?? {
+    status: 400,
+    code: reason,
+    message: 'Payment could not be verified'
+  };
+
+export const createRpcPaymentVerifier = (options: {
+  rpcUrl: string;
+  minConfirmations: number;
+}): RelayPaymentVerifier =>
+  new PaymentVerifier({
+    rpc: new NanoRpcClient(options.rpcUrl),
+    minConfirmations: options.minConfirmations
+  });
+
+// An unreachable node, or one that has the block but not its confirmation,
+// does not contradict a valid signed proof; the payment is recorded and
+// confirmed by the PaymentConfirmer. A reachable node that has never seen the
+// block does contradict it: the pair may never have been broadcast.
+const PENDING_REASONS = new Set(['payment.unconfirmed', 'wallet.rpc_unavailable']);
+
+export const isPendingConfirmation = (reason: string) => PENDING_REASONS.has(reason);
+
+export type PaymentConfirmResult = {
+  checked: number;
+  confirmed: number;
+  failed: number;
+};
+
+export type ConfirmedJob = Selectable<JobTable>;
+
+export type PaymentConfirmerOptions = {
+  db: Kysely<Database>;
+  log: FastifyBaseLogger;
+  verifier: RelayPaymentVerifier;
+  intervalMs: number;
+  batchSize: number;
+  onChecked?: (result: VerificationResult) => void;
+  onTransition: (
+    trx: Transaction<Database>,
+    job: ConfirmedJob,
+    fromStatus: JobStatus,
+    toStatus: JobStatus
+  ) => void | Promise<void>;
+};
+
+export type PaymentConfirmer = {
+  confirm: () => Promise<PaymentConfirmResult>;
+  start: () => void;
+  stop: () => void;
+};
+
+// Re-checks payments recorded from a signed proof alone until the node
+// confirms them. A job whose proof the node contradicts is failed; one the
+// node cannot yet confirm is retried after every other pending proof.
+export const createPaymentConfirmer = (
+  options: PaymentConfirmerOptions
+): PaymentConfirmer => {
+  const { db, log } = options;
+  let timer: NodeJS.Timeout | null = null;
+  let confirming = false;
+
+  const confirm = async (): Promise<PaymentConfirmResult> => {
+    const pending = await db
+      .selectFrom('jobs')
+      .selectAll()
+      .where('payment_proof', 'is not', null)
+      .where('payment_verified_at', 'is', null)
+      .where('status', 'in', ['accepted', 'running'])
+      .orderBy(sql`payment_checked_at asc nulls first`)
+      .orderBy('job_id')
+      .limit(options.batchSize)
+      .execute();
+
+    let confirmed = 0;
+    let failed = 0;
+    for (const job of pending) {
+      if (!job.payment_tx_hash) continue;
+      const result = await options.verifier.verifyHash(job, job.payment_tx_hash);
+      options.onChecked?.(result);
+      const checkedAt = new Date();
+      if (result.verified) {
+        const updated = await db
+          .updateTable('jobs')
+          .set({ payment_verified_at: checkedAt, payment_checked_at: checkedAt })
+          .where('job_id', '=', job.job_id)
+          .where('payment_verified_at', 'is', null)
+          .executeTakeFirst();
+        if (Number(updated.numUpdatedRows) > 0) confirmed += 1;
+        continue;
+      }
+      if (isPendingConfirmation(result.reason)) {
+        await db
+          .updateTable('jobs')
+          .set({ payment_checked_at: checkedAt })
+          .where('job_id', '=', job.job_id)
+          .execute();
+        continue;
+      }
+
+      log.warn(
+        { job_id: job.job_id, reason: result.reason },
+        'payment.proof_contradicted'
+      );
+      const contradicted = await db.transaction().execute(async (trx) => {
+        const row = await trx
+          .updateTable('jobs')
+          .set({
+            status: 'failed',
+            lock_owner: null,
+            lock_expires_at: null,
+            payment_checked_at: checkedAt,
+            error: {
+              code: 'payment_contradicted',
+              message: 'The Nano node contradicts the submitted payment proof',
+              details: { reason: result.reason }
+            }
+          })
+          .where('job_id', '=', job.job_id)
+          .where('status', '=', job.status)
+          .where('payment_verified_at', 'is', null)
+          .returningAll()
+          .executeTakeFirst();
+        if (row) await options.onTransition(trx, row, job.status, 'failed');
+        return row;
+      });
+      if (contradicted) failed += 1;
+    }
+    return { checked: pending.length, confirmed, failed };
+  };
+
+  const tick = async () => {
+    if (confirming) return;
+    confirming = true;
+    try {
+      await confirm();
+    } catch (error) {
+      log.error({ err: error }, 'payment.confirm_failed');
+    } finally {
+      confirming = false;
+    }
+  };
+
+  return {
+    confirm,
+    start: () => {
+      if (timer || options.intervalMs <= 0) return;
+      timer = setInterval(() => {
+        void tick();
+      }, options.intervalMs);
+      timer.unref();
+    },
+    stop: () => {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+};
@@ -0,0 +1,138 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { sql, type Kysely } from 'kysely';
+import type { Database } from './db.js';
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  // Whole requests left in the bucket after this one.
+  remaining: number;
+  // Seconds until the bucket is full again.
+  resetSeconds: number;
+  // Seconds until the next request would be allowed; 0 when allowed.
+  retryAfterSeconds: number;
+};
+
+// Token buckets of `limit` tokens refilling linearly over the window. Every
+// relay instance sharing a store shares the buckets.
+export type RateLimitStore = {
+  take: (key: string, limit: number) => Promise<RateLimitDecision>;
+};
+
+const toDecision = (
+  limit: number,
+  windowMs: number,
+  tokens: number,
+  allowed: boolean
+): RateLimitDecision => {
+  const refillPerMs = limit / windowMs;
+  return {
+    allowed,
+    limit,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil((limit - tokens) / refillPerMs / 1000),
+    retryAfterSeconds: allowed
+      ? 0
+      : Math.max(1, Math.ceil((1 - tokens) / refillPerMs / 1000))
+  };
+};
+
+const closedBucket = (limit: number, windowMs: number): RateLimitDecision => ({
+  allowed: false,
+  limit,
+  remaining: 0,
+  resetSeconds: Math.ceil(windowMs / 1000),
+  retryAfterSeconds: Math.ceil(windowMs / 1000)
+});
+
+// Per-process buckets; limits multiply with the replica count and reset on
+// restart.
+export const createMemoryRateLimitStore = (options: {
+  windowMs: number;
+}): RateLimitStore => {
+  const { windowMs } = options;
+  const buckets = new Map<string, { tokens: number; last: number }>();
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    const expiry = windowMs * 2;
+    for (const [key, bucket] of buckets.entries()) {
+      if (now - bucket.last > expiry) {
+        buckets.delete(key);
+      }
+    }
+    lastSweep = now;
+  };
+
+  return {
+    take: async (key, limit) => {
+      if (limit <= 0) return closedBucket(limit, windowMs);
+      const now = Date.now();
+      sweep(now);
+      const existing = buckets.get(key) ?? { tokens: limit, last: now };
+      const elapsed = now - existing.last;
+      const tokens = Math.min(limit, existing.tokens + (elapsed * limit) / windowMs);
+      const allowed = tokens >= 1;
+      existing.tokens = allowed ? tokens - 1 : tokens;
+      existing.last = now;
+      buckets.set(key, existing);
+      return toDecision(limit, windowMs, existing.tokens, allowed);
+    }
+  };
+};
+
+// Buckets in `rate_limit_buckets`, refilled against the database clock so
+// replicas with skewed clocks agree. A take is a single upsert: the row is
+// only written when a token is available, so a denied request leaves the
+// bucket as it was and returns no row.
+export const createPostgresRateLimitStore = (options: {
+  db: Kysely<Database>;
+  log: FastifyBaseLogger;
+  windowMs: number;
+}): RateLimitStore => {
+  const { db, log, windowMs } = options;
+  let lastSweep = Date.now();
+
+  const sweep = (now: number) => {
+    if (now - lastSweep < windowMs) return;
+    lastSweep = now;
+    db.deleteFrom('rate_limit_buckets')
+      .where(
+        'updated_at',
+        '<',
+        sql<Date>`now() - ${windowMs * 2} * interval '1 millisecond'`
+      )
+      .execute()
+      .catch((error) => log.warn({ err: error }, 'rate_limit.sweep_failed'));
+  };
+
+  return {
+    take: async (key, limit) => {
+      if (limit <= 0) return closedBucket(limit, windowMs);
+      sweep(Date.now());
+      const refillPerMs = limit / windowMs;
+      const refilled = sql<number>`least(
+        ${limit}::float8,
+        rate_limit_buckets.tokens
+          + extract(epoch from now() - rate_limit_buckets.updated_at)::float8
+            * 1000 * ${refillPerMs}::float8
+      )`;
+      const taken = await sql<{ tokens: number }>`
+        insert into rate_limit_buckets (key, tokens, updated_at)
+        values (${key}, ${limit - 1}, now())
+        on conflict (key) do update
+          set tokens = ${refilled} - 1, updated_at = now()
+          where ${refilled} >= 1
+        returning tokens
+      `.execute(db);
+      const row = taken.rows[0];
+      if (row) return toDecision(limit, windowMs, Number(row.tokens), true);
+
+      const current = await sql<{ tokens: number }>`
+        select ${refilled} as tokens from rate_limit_buckets where key = ${key}
+      `.execute(db);
+      return toDecision(limit, windowMs, Number(current.rows[0]?.tokens ?? 0), false);
+    }
+  };
+};
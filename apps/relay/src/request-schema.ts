@@ -0,0 +1,78 @@
+import AjvModule, { type ErrorObject, type ValidateFunction } from 'ajv';
+import formatsModule from 'ajv-formats';
+
+// Both packages are CommonJS with a `default` export.
+const Ajv = AjvModule.default;
+const addFormats = formatsModule.default;
+
+const MAX_COMPILED_SCHEMAS = 256;
+const MAX_PAYLOAD_ERRORS = 20;
+
+export type RequestPayloadError = {
+  path: string;
+  keyword: string;
+  message: string;
+  params: Record<string, unknown>;
+};
+
+// Keyed by the schema's JSON text, so every offer version sharing a schema
+// shares one validator. Map order doubles as LRU order.
+const compiled = new Map<string, ValidateFunction>();
+
+// Each schema gets its own Ajv instance: sellers control `$id`, and a shared
+// instance would reject a second schema reusing one and never free old ones.
+const compile = (schema: object): ValidateFunction => {
+  const key = JSON.stringify(schema);
+  const cached = compiled.get(key);
+  if (cached) {
+    compiled.delete(key);
+    compiled.set(key, cached);
+    return cached;
+  }
+  const ajv = new Ajv({ allErrors: true, strict: false });
+  addFormats(ajv);
+  const validate = ajv.compile(schema);
+  compiled.set(key, validate);
+  if (compiled.size > MAX_COMPILED_SCHEMAS) {
+    const oldest = compiled.keys().next().value;
+    if (oldest !== undefined) compiled.delete(oldest);
+  }
+  return validate;
+};
+
+// Returns why the schema cannot be used, or null when it compiles.
+export const requestSchemaIssue = (schema: unknown): string | null => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) {
+    return 'request_schema must be a JSON Schema object';
+  }
+  try {
+    compile(schema);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+};
+
+const toPayloadError = (error: ErrorObject): RequestPayloadError => ({
+  path: error.instancePath,
+  keyword: error.keyword,
+  message: error.message ?? 'is invalid',
+  params: error.params
+});
+
+// Schemas are checked on write, so a compile failure here means the stored
+// schema predates a validator change; treat it as no contract.
+export const validateRequestPayload = (
+  schema: unknown,
+  payload: unknown
+): RequestPayloadError[] => {
+  if (!schema || typeof schema !== 'object') return [];
+  let validate: ValidateFunction;
+  try {
+    validate = compile(schema);
+  } catch {
+    return [];
+  }
+  if (validate(payload)) return [];
+  return (validate.errors ?? []).slice(0, MAX_PAYLOAD_ERRORS).map(toPayloadError);
+};
@@ -1,22 +1,29 @@
+import type { Span } from '@opentelemetry/api';
 import type { Kysely } from 'kysely';
+import type { AccountLimits } from './accounts.js';
 import type { Database } from './db.js';
-
-type Metrics = {
-  counters: Record<string, number>;
-  inc: (name: string, labels?: Record<string, string>) => void;
-  snapshot: () => { counters: Record<string, number> };
-};
+import type { ExpirySweeper } from './expiry.js';
+import type { Metrics } from './metrics.js';
+import type { RateLimitDecision } from './rate-limit.js';
+import type { PaymentConfirmer } from './payment-verification.js';
+import type { WebhookDispatcher } from './webhooks.js';
 
 declare module 'fastify' {
   interface FastifyInstance {
     db: Kysely<Database>;
     metrics: Metrics;
+    expirySweeper: ExpirySweeper;
+    webhookDispatcher: WebhookDispatcher;
+    paymentConfirmer: PaymentConfirmer | null;
   }
 
   interface FastifyRequest {
     rawBody?: Buffer;
+    span?: Span;
+    rateLimit?: RateLimitDecision;
     auth?: {
       pubkey: string;
+      limits: AccountLimits;
     };
     idempotencyResponse?: {
       status: number;
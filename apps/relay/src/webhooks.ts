@@ -0,0 +1,402 @@
+import type { FastifyBaseLogger } from 'fastify';
+import { randomBytes } from 'node:crypto';
+import { lookup, type LookupAddress } from 'node:dns';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { sql, type Kysely, type Selectable } from 'kysely';
+import { Agent, buildConnector, fetch } from 'undici';
+import { signCanonical } from '@nanobazaar/shared';
+import type { Database, WebhookDeliveryTable } from './db.js';
+
+// Webhook URLs are caller-supplied, so the relay must not become a way to
+// reach its own network. Checked against every address the host resolves to,
+// at connect time, so the socket goes to an address that was checked.
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// Stored and returned in the delivery log. Anything more specific (resolved
+// addresses, socket errors) only goes to the relay log.
+export type WebhookDeliveryError =
+  | 'http_error'
+  | 'redirect_not_followed'
+  | 'timeout'
+  | 'dns_failed'
+  | 'blocked_address'
+  | 'connection_failed';
+
+export type WebhookDelivery = Selectable<WebhookDeliveryTable>;
+
+export type WebhookSigner = {
+  publicKey: string;
+  privateKey: string;
+};
+
+export type WebhookDispatchResult = {
+  attempted: number;
+  delivered: number;
+  retried: number;
+  failed: number;
+};
+
+export type WebhookDispatcherOptions = {
+  db: Kysely<Database>;
+  log: FastifyBaseLogger;
+  signer: WebhookSigner;
+  intervalMs: number;
+  batchSize: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  timeoutMs: number;
+  // Hostnames exempt from the address check (RELAY_WEBHOOK_ALLOWED_HOSTS).
+  allowedHosts: Set<string>;
+};
+
+export type WebhookDispatcher = {
+  dispatch: () => Promise<WebhookDispatchResult>;
+  start: () => void;
+  stop: () => void;
+};
+
+type ClaimedDelivery = WebhookDelivery & { url: string };
+
+export const webhookBackoffMs = (
+  attempts: number,
+  baseMs: number,
+  maxMs: number
+): number => Math.min(maxMs, baseMs * 2 ** Math.max(0, attempts - 1));
+
+// Signs exactly like a REST request (see spec/AUTH.md), so receivers can check
+// deliveries with verifyCanonical against the relay public key.
+export const signWebhookRequest = (
+  signer: WebhookSigner,
+  url: string,
+  body: Buffer
+): Record<string, string> => {
+  const target = new URL(url);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const nonce = randomBytes(16).toString('hex');
+  const signature = signCanonical({
+    method: 'POST',
+    path: `${target.pathname}${target.search}`,
+    timestamp,
+    nonce,
+    body,
+    privateKeyHex: signer.privateKey
+  });
+  return {
+    'x-molt-pubkey': signer.publicKey,
+    'x-molt-timestamp': timestamp,
+    'x-molt-nonce': nonce,
+    'x-molt-signature': signature
+  };
+};
+
+export const isBlockedWebhookAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+class BlockedAddressError extends Error {
+  constructor(hostname: string, address: string) {
+    super(`${hostname} resolves to blocked address ${address}`);
+    this.name = 'BlockedAddressError';
+  }
+}
+
+// Resolves like dns.lookup but fails instead of returning any blocked address.
+// Vetted addresses go straight to the socket, so a second resolution cannot
+// swap in another one (DNS rebinding).
+const createGuardedLookup =
+  (allowedHosts: Set<string>): LookupFunction =>
+  (hostname, lookupOptions, callback) => {
+    lookup(hostname, { ...lookupOptions, all: true }, (error, addresses) => {
+      if (error) {
+        callback(error, '', 0);
+        return;
+      }
+      const resolved = addresses as LookupAddress[];
+      const blocked = allowedHosts.has(hostname.toLowerCase())
+        ? undefined
+        : resolved.find((entry) => isBlockedWebhookAddress(entry.address));
+      if (blocked || resolved.length === 0) {
+        callback(
+          new BlockedAddressError(hostname, blocked?.address ?? 'none'),
+          '',
+          0
+        );
+        return;
+      }
+      if (lookupOptions.all) {
+        callback(null, resolved);
+        return;
+      }
+      callback(null, resolved[0].address, resolved[0].family);
+    });
+  };
+
+// IP literals never reach the lookup, so they are checked here.
+const createGuardedAgent = (allowedHosts: Set<string>, timeoutMs: number) => {
+  const connect = buildConnector({
+    lookup: createGuardedLookup(allowedHosts),
+    timeout: timeoutMs
+  });
+  return new Agent({
+    connect: (connectOptions, callback) => {
+      const { hostname } = connectOptions;
+      if (
+        isIP(hostname) !== 0 &&
+        !allowedHosts.has(hostname.toLowerCase()) &&
+        isBlockedWebhookAddress(hostname)
+      ) {
+        callback(new BlockedAddressError(hostname, hostname), null);
+        return;
+      }
+      connect(connectOptions, callback);
+    }
+  });
+};
+
+const toDeliveryError = (error: unknown): WebhookDeliveryError => {
+  if (
+    error instanceof Error &&
+    (error.name === 'TimeoutError' || error.name === 'AbortError')
+  ) {
+    return 'timeout';
+  }
+  const cause = error instanceof Error ? error.cause : undefined;
+  if (cause instanceof BlockedAddressError) return 'blocked_address';
+  const code = (cause as NodeJS.ErrnoException | undefined)?.code;
+  if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') return 'dns_failed';
+  return 'connection_failed';
+};
+
+export const toPublicWebhookDelivery = (delivery: WebhookDelivery) => ({
+  delivery_id: delivery.delivery_id,
+  webhook_id: delivery.webhook_id,
+  event_id: delivery.event_id,
+  event_type: delivery.event_type,
+  status: delivery.status,
+  attempts: delivery.attempts,
+  next_attempt_at: delivery.status === 'pending' ? delivery.next_attempt_at : null,
+  last_attempt_at: delivery.last_attempt_at,
+  last_status_code: delivery.last_status_code,
+  last_error: delivery.last_error,
+  delivered_at: delivery.delivered_at,
+  created_at: delivery.created_at
+});
+
+export const createWebhookDispatcher = (
+  options: WebhookDispatcherOptions
+): WebhookDispatcher => {
+  const { db, log } = options;
+  const agent = createGuardedAgent(options.allowedHosts, options.timeoutMs);
+  let timer: NodeJS.Timeout | null = null;
+  let dispatching = false;
+
+  // Claiming pushes next_attempt_at out by a lease, so a delivery in flight is
+  // not picked up by another instance, and is retried if this one dies.
+  const claim = async (): Promise<ClaimedDelivery[]> => {
+    const leaseMs = options.timeoutMs * 2;
+    const result = await sql<ClaimedDelivery>`
+      update webhook_deliveries d
+      set next_attempt_at = now() + ${leaseMs} * interval '1 millisecond'
+      from webhooks w
+      where w.webhook_id = d.webhook_id
+        and d.delivery_id in (
+          select delivery_id from webhook_deliveries
+          where status = 'pending' and next_attempt_at <= now()
+          order by next_attempt_at, delivery_id
+          limit ${options.batchSize}
+          for update skip locked
+        )
+      returning d.*, w.url
+    `.execute(db);
+    return result.rows;
+  };
+
+  const attempt = async (
+    delivery: ClaimedDelivery
+  ): Promise<{
+    statusCode: number | null;
+    error: WebhookDeliveryError | null;
+    detail?: string;
+  }> => {
+    const body = Buffer.from(
+      JSON.stringify({
+        delivery_id: delivery.delivery_id,
+        webhook_id: delivery.webhook_id,
+        event: delivery.payload
+      })
+    );
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          'x-molt-delivery-id': delivery.delivery_id,
+          'x-molt-event-type': delivery.event_type,
+          ...signWebhookRequest(options.signer, delivery.url, body)
+        },
+        body,
+        redirect: 'manual',
+        dispatcher: agent,
+        signal: AbortSignal.timeout(options.timeoutMs)
+      });
+      await response.body?.cancel().catch(() => undefined);
+      if (response.status >= 200 && response.status < 300) {
+        return { statusCode: response.status, error: null };
+      }
+      return {
+        statusCode: response.status,
+        error:
+          response.status >= 300 && response.status < 400
+            ? 'redirect_not_followed'
+            : 'http_error'
+      };
+    } catch (error) {
+      const cause = error instanceof Error ? error.cause : undefined;
+      return {
+        statusCode: null,
+        error: toDeliveryError(error),
+        detail: String(
+          cause instanceof Error
+            ? cause.message
+            : error instanceof Error
+              ? error.message
+              : error
+        )
+      };
+    }
+  };
+
+  const dispatch = async (): Promise<WebhookDispatchResult> => {
+    const claimed = await claim();
+    const result: WebhookDispatchResult = {
+      attempted: claimed.length,
+      delivered: 0,
+      retried: 0,
+      failed: 0
+    };
+
+    await Promise.all(
+      claimed.map(async (delivery) => {
+        const outcome = await attempt(delivery);
+        const attempts = delivery.attempts + 1;
+        const attemptedAt = new Date();
+
+        if (!outcome.error) {
+          result.delivered += 1;
+          await db
+            .updateTable('webhook_deliveries')
+            .set({
+              status: 'delivered',
+              attempts,
+              last_attempt_at: attemptedAt,
+              last_status_code: outcome.statusCode,
+              last_error: null,
+              delivered_at: attemptedAt
+            })
+            .where('delivery_id', '=', delivery.delivery_id)
+            .execute();
+          return;
+        }
+
+        const exhausted = attempts >= options.maxAttempts;
+        if (exhausted) {
+          result.failed += 1;
+        } else {
+          result.retried += 1;
+        }
+        log.warn(
+          {
+            delivery_id: delivery.delivery_id,
+            webhook_id: delivery.webhook_id,
+            attempts,
+            status_code: outcome.statusCode,
+            error: outcome.error,
+            detail: outcome.detail
+          },
+          exhausted ? 'webhook.delivery_failed' : 'webhook.delivery_retry'
+        );
+        await db
+          .updateTable('webhook_deliveries')
+          .set({
+            status: exhausted ? 'failed' : 'pending',
+            attempts,
+            last_attempt_at: attemptedAt,
+            last_status_code: outcome.statusCode,
+            last_error: outcome.error,
+            next_attempt_at: new Date(
+              attemptedAt.getTime() +
+                webhookBackoffMs(
+                  attempts,
+                  options.backoffBaseMs,
+                  options.backoffMaxMs
+                )
+            )
+          })
+          .where('delivery_id', '=', delivery.delivery_id)
+          .execute();
+      })
+    );
+
+    return result;
+  };
+
+  const tick = async () => {
+    if (dispatching) return;
+    dispatching = true;
+    try {
+      // Keep draining while full batches come back.
+      for (;;) {
+        const result = await dispatch();
+        if (result.attempted < options.batchSize) break;
+      }
+    } catch (error) {
+      log.error({ err: error }, 'webhook.dispatch_failed');
+    } finally {
+      dispatching = false;
+    }
+  };
+
+  return {
+    dispatch,
+    start: () => {
+      if (timer || options.intervalMs <= 0) return;
+      timer = setInterval(() => {
+        void tick();
+      }, options.intervalMs);
+      timer.unref();
+    },
+    stop: () => {
+      if (!timer) return;
+      clearInterval(timer);
+      timer = null;
+    }
+  };
+};
@@ -1,4 +1,23 @@
 import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { createServer, type IncomingHttpHeaders } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileSpanExporter,
+  initTracing,
+  PaymentVerifier,
+  signNonce,
+  verifyCanonical,
+  type NanoBlockInfo
+} from '@nanobazaar/shared';
+import {
+  createBlock,
+  deriveAddress,
+  derivePublicKey,
+  deriveSecretKey
+} from 'nanocurrency';
 import { buildServer } from '../src/server.js';
 import { authHeaders, createKeypair, truncateAll } from './helpers.js';
 
@@ -16,7 +35,8 @@ describe('relay api', () => {
     keypair,
     nonce,
     timestamp,
-    idempotencyKey
+    idempotencyKey,
+    target = server
   }: {
     method: string;
     url: string;
@@ -25,6 +45,7 @@ describe('relay api', () => {
     nonce?: string;
     timestamp?: string;
     idempotencyKey?: string;
+    target?: typeof server;
   }) => {
     const payload = body === undefined ? undefined : json(body);
     const rawBody = payload ? Buffer.from(payload) : Buffer.alloc(0);
@@ -44,7 +65,7 @@ describe('relay api', () => {
       headers['idempotency-key'] = idempotencyKey;
     }
 
-    return server.inject({
+    return target.inject({
       method,
       url,
       payload,
@@ -141,7 +162,7 @@ describe('relay api', () => {
       method: 'POST',
       url: `/v1/jobs/${job.job_id}/quote`,
       body: {
-        quote_amount_raw: '2500',
+        quote_amount_raw: '1000',
         quote_invoice_address: 'nano_1exampleaddress',
         quote_expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString()
       },
@@ -166,6 +187,7 @@ describe('relay api', () => {
       keypair: buyer
     });
     expect(paymentRes.statusCode).toBe(200);
+    expect(JSON.parse(paymentRes.body).job.payment_verified_at).toBeNull();
 
     const lockRes = await signedInject({
       method: 'POST',
@@ -174,12 +196,15 @@ describe('relay api', () => {
       keypair: seller
     });
     expect(lockRes.statusCode).toBe(200);
-    expect(JSON.parse(lockRes.body).job.status).toBe('running');
+    const lockedJob = JSON.parse(lockRes.body).job;
+    expect(lockedJob.status).toBe('running');
+    expect(lockedJob.lock_token).toBe(1);
 
     const deliverRes = await signedInject({
       method: 'POST',
       url: `/v1/jobs/${job.job_id}/deliver`,
       body: {
+        lock_token: lockedJob.lock_token,
         result_url: 'https://example.com/results/job-1',
         error: null
       },
@@ -199,235 +224,3056 @@ describe('relay api', () => {
     );
   });
 
-  it('replays idempotent requests and rejects conflicts', async () => {
-    const offerPayload = {
-      title: 'Idempotent Offer',
-      description: 'Idempotency test',
-      tags: ['idempotency'],
-      pricing_mode: 'fixed',
-      fixed_price_raw: '1000',
-      active: true
-    };
-
+  it('negotiates quotes with rejections and re-quotes', async () => {
     const offerRes = await signedInject({
       method: 'POST',
       url: '/v1/offers',
-      body: offerPayload,
+      body: {
+        title: 'Negotiable',
+        description: 'Quote pricing',
+        pricing_mode: 'quote',
+        fixed_price_raw: null
+      },
       keypair: seller
     });
-    expect(offerRes.statusCode).toBe(201);
     const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
 
-    const jobBody = {
-      offer_id: offer.offer_id,
-      request_payload: { url: 'https://example.com/idempotent' }
-    };
+    const quote = (amount: string, charge: Record<string, string> = {}) =>
+      signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/quote`,
+        body: {
+          quote_amount_raw: amount,
+          quote_invoice_address: 'nano_1exampleaddress',
+          quote_expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString(),
+          ...charge
+        },
+        keypair: seller
+      });
 
-    const idemKey = 'job-create-1';
-    const first = await signedInject({
+    const firstQuote = await quote('1200', {
+      payment_charge_id: 'charge-1',
+      payment_charge_address: 'nano_1chargeaddress'
+    });
+    expect(firstQuote.statusCode).toBe(200);
+    expect(JSON.parse(firstQuote.body).job).toMatchObject({
+      payment_charge_id: 'charge-1',
+      payment_provider: 'berrypay'
+    });
+    expect((await quote('1100')).statusCode).toBe(409);
+
+    const bySeller = await signedInject({
       method: 'POST',
-      url: '/v1/jobs',
-      body: jobBody,
-      keypair: buyer,
-      idempotencyKey: idemKey
+      url: `/v1/jobs/${job.job_id}/reject-quote`,
+      body: {},
+      keypair: seller
     });
-    expect(first.statusCode).toBe(201);
-    const job1 = JSON.parse(first.body).job;
+    expect(bySeller.statusCode).toBe(403);
 
-    const second = await signedInject({
+    const rejectRes = await signedInject({
       method: 'POST',
-      url: '/v1/jobs',
-      body: jobBody,
-      keypair: buyer,
-      idempotencyKey: idemKey
+      url: `/v1/jobs/${job.job_id}/reject-quote`,
+      body: { counter_amount_raw: '800', message: 'Too steep' },
+      keypair: buyer
+    });
+    expect(rejectRes.statusCode).toBe(200);
+    expect(JSON.parse(rejectRes.body).job).toMatchObject({
+      status: 'requested',
+      quote_amount_raw: null,
+      quote_invoice_address: null,
+      quote_expires_at: null,
+      payment_charge_id: null,
+      payment_charge_address: null,
+      payment_provider: null
     });
-    expect(second.statusCode).toBe(201);
-    expect(second.headers['idempotency-replayed']).toBe('true');
-    const job2 = JSON.parse(second.body).job;
-    expect(job2.job_id).toBe(job1.job_id);
 
-    const conflict = await signedInject({
+    // A re-quote without a charge must not inherit the rejected one.
+    const requoteRes = await quote('900');
+    expect(requoteRes.statusCode).toBe(200);
+    expect(JSON.parse(requoteRes.body).job).toMatchObject({
+      quote_amount_raw: '900',
+      payment_charge_id: null,
+      payment_charge_address: null
+    });
+
+    const acceptRes = await signedInject({
       method: 'POST',
-      url: '/v1/jobs',
-      body: {
-        offer_id: offer.offer_id,
-        request_payload: { url: 'https://example.com/different' }
+      url: `/v1/jobs/${job.job_id}/accept`,
+      keypair: buyer
+    });
+    expect(acceptRes.statusCode).toBe(200);
+
+    const quotesRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}/quotes`,
+      keypair: seller
+    });
+    expect(quotesRes.statusCode).toBe(200);
+    expect(JSON.parse(quotesRes.body).quotes).toMatchObject([
+      {
+        revision: 1,
+        quote_amount_raw: '1200',
+        status: 'rejected',
+        counter_amount_raw: '800',
+        response_message: 'Too steep'
       },
-      keypair: buyer,
-      idempotencyKey: idemKey
+      { revision: 2, quote_amount_raw: '900', status: 'accepted' }
+    ]);
+
+    const eventsRes = await signedInject({
+      method: 'GET',
+      url: '/v1/events?role=buyer',
+      keypair: buyer
     });
-    expect(conflict.statusCode).toBe(409);
-    expect(JSON.parse(conflict.body).error.code).toBe('idempotency_conflict');
-  });
+    expect(JSON.parse(eventsRes.body).events.map((event: { type: string }) => event.type)).toEqual([
+      'job.requested',
+      'job.quoted',
+      'job.quote_rejected',
+      'job.quoted',
+      'job.accepted'
+    ]);
 
-  it('enforces request_payload size limits', async () => {
-    const offerPayload = {
-      title: 'Big payload',
-      description: 'Payload cap check',
-      tags: ['limits'],
-      pricing_mode: 'fixed',
-      fixed_price_raw: '1000',
-      active: true
-    };
-    const offerRes = await signedInject({
+    const fixedOfferRes = await signedInject({
       method: 'POST',
       url: '/v1/offers',
-      body: offerPayload,
+      body: {
+        title: 'Fixed',
+        description: 'Not negotiable',
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000'
+      },
       keypair: seller
     });
-    const offer = JSON.parse(offerRes.body).offer;
-
-    const big = 'a'.repeat(70 * 1024);
-    const jobRes = await signedInject({
+    const fixedJobRes = await signedInject({
       method: 'POST',
       url: '/v1/jobs',
-      body: {
-        offer_id: offer.offer_id,
-        request_payload: { text: big }
-      },
+      body: { offer_id: JSON.parse(fixedOfferRes.body).offer.offer_id, request_payload: {} },
       keypair: buyer
     });
-    expect(jobRes.statusCode).toBe(413);
-    expect(JSON.parse(jobRes.body).error.code).toBe('payload_too_large');
+    const fixedJob = JSON.parse(fixedJobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${fixedJob.job_id}/quote`,
+      body: { quote_amount_raw: '1000', quote_invoice_address: 'nano_1exampleaddress' },
+      keypair: seller
+    });
+    const fixedReject = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${fixedJob.job_id}/reject-quote`,
+      body: { counter_amount_raw: '500' },
+      keypair: buyer
+    });
+    expect(fixedReject.statusCode).toBe(409);
   });
 
-  it('filters jobs by updated_after', async () => {
-    const offerPayload = {
-      title: 'Updated After',
-      description: 'Cursor filtering',
-      tags: ['cursor'],
-      pricing_mode: 'fixed',
-      fixed_price_raw: '1000',
-      active: true
-    };
+  it('lets sellers decline requested jobs', async () => {
     const offerRes = await signedInject({
       method: 'POST',
       url: '/v1/offers',
-      body: offerPayload,
+      body: {
+        title: 'Declinable',
+        description: 'Seller may refuse',
+        pricing_mode: 'quote',
+        fixed_price_raw: null
+      },
       keypair: seller
     });
-    expect(offerRes.statusCode).toBe(201);
     const offer = JSON.parse(offerRes.body).offer;
-
-    const jobRes1 = await signedInject({
+    const jobRes = await signedInject({
       method: 'POST',
       url: '/v1/jobs',
-      body: {
-        offer_id: offer.offer_id,
-        request_payload: { url: 'https://example.com/1' }
-      },
+      body: { offer_id: offer.offer_id, request_payload: { url: 'ftp://nope' } },
       keypair: buyer
     });
-    expect(jobRes1.statusCode).toBe(201);
-    const job1 = JSON.parse(jobRes1.body).job;
-
-    await new Promise((resolve) => setTimeout(resolve, 5));
+    const job = JSON.parse(jobRes.body).job;
 
-    const jobRes2 = await signedInject({
+    const byBuyer = await signedInject({
       method: 'POST',
-      url: '/v1/jobs',
-      body: {
-        offer_id: offer.offer_id,
-        request_payload: { url: 'https://example.com/2' }
-      },
+      url: `/v1/jobs/${job.job_id}/decline`,
+      body: { reason: 'other' },
       keypair: buyer
     });
-    expect(jobRes2.statusCode).toBe(201);
-    const job2 = JSON.parse(jobRes2.body).job;
+    expect(byBuyer.statusCode).toBe(403);
 
-    const updatedAfter = new Date(job1.updated_at);
-    updatedAfter.setMilliseconds(updatedAfter.getMilliseconds() + 1);
+    const badReason = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/decline`,
+      body: { reason: 'because' },
+      keypair: seller
+    });
+    expect(badReason.statusCode).toBe(400);
+
+    const declineRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/decline`,
+      body: { reason: 'unsupported_request', message: 'FTP is not supported' },
+      keypair: seller
+    });
+    expect(declineRes.statusCode).toBe(200);
+    expect(JSON.parse(declineRes.body).job).toMatchObject({
+      status: 'declined',
+      error: { code: 'unsupported_request', message: 'FTP is not supported' }
+    });
+
+    const again = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/decline`,
+      body: { reason: 'other' },
+      keypair: seller
+    });
+    expect(again.statusCode).toBe(409);
 
     const listRes = await signedInject({
       method: 'GET',
-      url: `/v1/jobs?role=buyer&updated_after=${encodeURIComponent(
-        updatedAfter.toISOString()
-      )}`,
+      url: '/v1/jobs?role=buyer&status=declined',
       keypair: buyer
     });
-    expect(listRes.statusCode).toBe(200);
-    const jobs = JSON.parse(listRes.body).jobs;
-    expect(jobs).toHaveLength(1);
-    expect(jobs[0].job_id).toBe(job2.job_id);
-  });
+    expect(JSON.parse(listRes.body).jobs.map((row: { job_id: string }) => row.job_id)).toEqual([
+      job.job_id
+    ]);
 
-  it('validates updated_after in job listing', async () => {
-    const listRes = await signedInject({
+    const eventsRes = await signedInject({
       method: 'GET',
-      url: '/v1/jobs?role=buyer&updated_after=not-a-date',
+      url: '/v1/events?role=buyer',
       keypair: buyer
     });
-    expect(listRes.statusCode).toBe(400);
-    expect(JSON.parse(listRes.body).error.code).toBe('validation_error');
+    expect(JSON.parse(eventsRes.body).events.map((event: { type: string }) => event.type)).toEqual([
+      'job.requested',
+      'job.declined'
+    ]);
   });
 
-  it('orders jobs by updated_at when updated_after is set', async () => {
-    const offerPayload = {
-      title: 'Order by updated_at',
-      description: 'Ordering check',
-      tags: ['order'],
-      pricing_mode: 'fixed',
-      fixed_price_raw: '1000',
-      active: true
-    };
-    const offerRes = await signedInject({
+  it('updates and soft-deletes offers', async () => {
+    const createRes = await signedInject({
       method: 'POST',
       url: '/v1/offers',
-      body: offerPayload,
+      body: {
+        title: 'Lifecycle',
+        description: 'Offer lifecycle',
+        tags: ['lifecycle'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
       keypair: seller
     });
-    expect(offerRes.statusCode).toBe(201);
-    const offer = JSON.parse(offerRes.body).offer;
+    const offer = JSON.parse(createRes.body).offer;
 
-    const jobRes1 = await signedInject({
-      method: 'POST',
-      url: '/v1/jobs',
+    const forbidden = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { title: 'Hijacked' },
+      keypair: buyer
+    });
+    expect(forbidden.statusCode).toBe(403);
+
+    const badPricing = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { pricing_mode: 'quote' },
+      keypair: seller
+    });
+    expect(badPricing.statusCode).toBe(400);
+
+    const patchRes = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
       body: {
-        offer_id: offer.offer_id,
-        request_payload: { url: 'https://example.com/1' }
+        title: 'Lifecycle v2',
+        pricing_mode: 'quote',
+        fixed_price_raw: null,
+        active: false
       },
+      keypair: seller
+    });
+    expect(patchRes.statusCode).toBe(200);
+    const patched = JSON.parse(patchRes.body).offer;
+    expect(patched).toMatchObject({
+      title: 'Lifecycle v2',
+      description: 'Offer lifecycle',
+      pricing_mode: 'quote',
+      fixed_price_raw: null,
+      active: false,
+      deleted_at: null
+    });
+
+    const inactiveJob = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
       keypair: buyer
     });
-    expect(jobRes1.statusCode).toBe(201);
-    const job1 = JSON.parse(jobRes1.body).job;
+    expect(inactiveJob.statusCode).toBe(409);
 
-    await new Promise((resolve) => setTimeout(resolve, 10));
+    await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { active: true },
+      keypair: seller
+    });
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    expect(jobRes.statusCode).toBe(201);
+    const job = JSON.parse(jobRes.body).job;
 
-    const jobRes2 = await signedInject({
+    const deleteRes = await signedInject({
+      method: 'DELETE',
+      url: `/v1/offers/${offer.offer_id}`,
+      keypair: seller
+    });
+    expect(deleteRes.statusCode).toBe(200);
+    expect(JSON.parse(deleteRes.body).offer.deleted_at).not.toBeNull();
+
+    const listRes = await server.inject({
+      method: 'GET',
+      url: `/v1/offers?seller_pubkey=${seller.publicKey}&active=false`
+    });
+    expect(JSON.parse(listRes.body).total).toBe(0);
+
+    const getRes = await server.inject({
+      method: 'GET',
+      url: `/v1/offers/${offer.offer_id}`
+    });
+    expect(getRes.statusCode).toBe(200);
+    expect(JSON.parse(getRes.body).offer.active).toBe(false);
+
+    const afterDelete = await signedInject({
       method: 'POST',
       url: '/v1/jobs',
-      body: {
-        offer_id: offer.offer_id,
-        request_payload: { url: 'https://example.com/2' }
-      },
+      body: { offer_id: offer.offer_id, request_payload: {} },
       keypair: buyer
     });
-    expect(jobRes2.statusCode).toBe(201);
-    const job2 = JSON.parse(jobRes2.body).job;
+    expect(afterDelete.statusCode).toBe(404);
+    const patchDeleted = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { active: true },
+      keypair: seller
+    });
+    expect(patchDeleted.statusCode).toBe(409);
 
-    await new Promise((resolve) => setTimeout(resolve, 10));
+    const jobView = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}`,
+      keypair: buyer
+    });
+    expect(JSON.parse(jobView.body).job.offer_id).toBe(offer.offer_id);
+  });
 
-    const quoteRes = await signedInject({
+  it('snapshots offer terms on jobs and enforces fixed prices', async () => {
+    const createRes = await signedInject({
       method: 'POST',
-      url: `/v1/jobs/${job1.job_id}/quote`,
+      url: '/v1/offers',
       body: {
-        quote_amount_raw: '2500',
-        quote_invoice_address: 'nano_1exampleaddress',
-        quote_expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString()
+        title: 'Versioned',
+        description: 'Original terms',
+        tags: ['versions'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
       },
       keypair: seller
     });
-    expect(quoteRes.statusCode).toBe(200);
+    const offer = JSON.parse(createRes.body).offer;
+    expect(offer.version).toBe(1);
 
-    const listRes = await signedInject({
-      method: 'GET',
-      url: '/v1/jobs?role=seller&updated_after=1970-01-01T00:00:00Z',
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    expect(job.offer_version).toBe(1);
+    expect(job.offer_snapshot).toMatchObject({
+      version: 1,
+      title: 'Versioned',
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000'
+    });
+
+    await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { active: false },
       keypair: seller
     });
-    expect(listRes.statusCode).toBe(200);
-    const jobs = JSON.parse(listRes.body).jobs;
-    expect(jobs).toHaveLength(2);
-    expect(jobs[0].job_id).toBe(job2.job_id);
-    expect(jobs[1].job_id).toBe(job1.job_id);
+    const repriced = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { fixed_price_raw: '5000', active: true },
+      keypair: seller
+    });
+    expect(JSON.parse(repriced.body).offer.version).toBe(2);
+    const unchanged = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: {
+        title: 'Versioned',
+        tags: ['versions'],
+        fixed_price_raw: '5000',
+        request_schema: null
+      },
+      keypair: seller
+    });
+    expect(JSON.parse(unchanged.body).offer.version).toBe(2);
+
+    const versionsRes = await server.inject({
+      method: 'GET',
+      url: `/v1/offers/${offer.offer_id}/versions`
+    });
+    expect(
+      JSON.parse(versionsRes.body).versions.map(
+        (version: { version: number; fixed_price_raw: string }) => [
+          version.version,
+          version.fixed_price_raw
+        ]
+      )
+    ).toEqual([
+      [2, '5000'],
+      [1, '1000']
+    ]);
+
+    const mismatch = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '5000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    expect(mismatch.statusCode).toBe(400);
+    expect(JSON.parse(mismatch.body).error.details.fixed_price_raw).toBe('1000');
+
+    const quoteRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    expect(quoteRes.statusCode).toBe(200);
+    expect(JSON.parse(quoteRes.body).job.offer_snapshot.fixed_price_raw).toBe(
+      '1000'
+    );
+  });
+
+  it('validates request payloads against the offer request_schema', async () => {
+    const badSchema = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Schema offer',
+        description: 'Typed requests',
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        request_schema: { type: 'not-a-type' }
+      },
+      keypair: seller
+    });
+    expect(badSchema.statusCode).toBe(400);
+    expect(JSON.parse(badSchema.body).error.details.issues.fieldErrors).toHaveProperty(
+      'request_schema'
+    );
+
+    const requestSchema = {
+      type: 'object',
+      properties: {
+        url: { type: 'string', format: 'uri' },
+        depth: { type: 'integer', minimum: 1 }
+      },
+      required: ['url'],
+      additionalProperties: false
+    };
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Schema offer',
+        description: 'Typed requests',
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        request_schema: requestSchema
+      },
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+    expect(offer.request_schema).toEqual(requestSchema);
+
+    const listRes = await server.inject({
+      method: 'GET',
+      url: `/v1/offers?seller_pubkey=${seller.publicKey}`
+    });
+    expect(JSON.parse(listRes.body).offers[0].request_schema).toEqual(requestSchema);
+
+    const invalidJob = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'not a url', depth: 0 }
+      },
+      keypair: buyer
+    });
+    expect(invalidJob.statusCode).toBe(400);
+    const invalidBody = JSON.parse(invalidJob.body);
+    expect(invalidBody.error.code).toBe('validation_error');
+    expect(invalidBody.error.details.offer_version).toBe(1);
+    expect(invalidBody.error.details.payload_errors).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: '/url', keyword: 'format' }),
+        expect.objectContaining({ path: '/depth', keyword: 'minimum' })
+      ])
+    );
+
+    const validJob = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com', depth: 2 }
+      },
+      keypair: buyer
+    });
+    expect(validJob.statusCode).toBe(201);
+    expect(JSON.parse(validJob.body).job.offer_snapshot.request_schema).toEqual(
+      requestSchema
+    );
+
+    const cleared = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${offer.offer_id}`,
+      body: { request_schema: null },
+      keypair: seller
+    });
+    expect(cleared.statusCode).toBe(200);
+    expect(JSON.parse(cleared.body).offer.version).toBe(2);
+    const untypedJob = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: { anything: true } },
+      keypair: buyer
+    });
+    expect(untypedJob.statusCode).toBe(201);
+  });
+
+  it('ranks offer search results and highlights matches', async () => {
+    const offers = [
+      {
+        title: 'Translate documents',
+        description: 'Careful human review of every page.',
+        fixed_price_raw: '3000'
+      },
+      {
+        title: 'Summarize reports',
+        description: 'Short summaries & <b>notes</b>, can also translate the result.',
+        fixed_price_raw: '1000'
+      },
+      {
+        title: 'Draw pictures',
+        description: 'Illustrations on request.',
+        fixed_price_raw: '2000'
+      }
+    ];
+    for (const offer of offers) {
+      const res = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: { ...offer, tags: ['search'], pricing_mode: 'fixed' },
+        keypair: seller
+      });
+      expect(res.statusCode).toBe(201);
+    }
+
+    const searchRes = await server.inject({
+      method: 'GET',
+      url: '/v1/offers?q=translating'
+    });
+    expect(searchRes.statusCode).toBe(200);
+    const search = JSON.parse(searchRes.body);
+    expect(search.total).toBe(2);
+    expect(search.offers.map((offer: { title: string }) => offer.title)).toEqual([
+      'Translate documents',
+      'Summarize reports'
+    ]);
+    expect(search.offers[0].rank).toBeGreaterThan(search.offers[1].rank);
+    expect(search.offers[0].highlight.title).toBe('<mark>Translate</mark> documents');
+    expect(search.offers[1].highlight.description).toContain('<mark>translate</mark>');
+    // Seller markup comes back escaped; only the highlight tags are HTML.
+    expect(search.offers[1].highlight.description).toContain(
+      '&amp; &lt;b&gt;notes&lt;/b&gt;'
+    );
+    expect(search.offers[0]).not.toHaveProperty('search_vector');
+
+    const byPrice = await server.inject({
+      method: 'GET',
+      url: '/v1/offers?q=translate&sort=price'
+    });
+    expect(
+      JSON.parse(byPrice.body).offers.map((offer: { title: string }) => offer.title)
+    ).toEqual(['Summarize reports', 'Translate documents']);
+
+    const plain = await server.inject({
+      method: 'GET',
+      url: '/v1/offers?sort=price'
+    });
+    const plainBody = JSON.parse(plain.body);
+    expect(plainBody.offers.map((offer: { fixed_price_raw: string }) => offer.fixed_price_raw)).toEqual([
+      '1000',
+      '2000',
+      '3000'
+    ]);
+    expect(plainBody.offers[0]).not.toHaveProperty('highlight');
+
+    const badSort = await server.inject({
+      method: 'GET',
+      url: '/v1/offers?sort=relevance'
+    });
+    expect(badSort.statusCode).toBe(400);
+  });
+
+  it('replays idempotent requests and rejects conflicts', async () => {
+    const offerPayload = {
+      title: 'Idempotent Offer',
+      description: 'Idempotency test',
+      tags: ['idempotency'],
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000',
+      active: true
+    };
+
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerPayload,
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const jobBody = {
+      offer_id: offer.offer_id,
+      request_payload: { url: 'https://example.com/idempotent' }
+    };
+
+    const idemKey = 'job-create-1';
+    const first = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: jobBody,
+      keypair: buyer,
+      idempotencyKey: idemKey
+    });
+    expect(first.statusCode).toBe(201);
+    const job1 = JSON.parse(first.body).job;
+
+    const second = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: jobBody,
+      keypair: buyer,
+      idempotencyKey: idemKey
+    });
+    expect(second.statusCode).toBe(201);
+    expect(second.headers['idempotency-replayed']).toBe('true');
+    const job2 = JSON.parse(second.body).job;
+    expect(job2.job_id).toBe(job1.job_id);
+
+    const conflict = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com/different' }
+      },
+      keypair: buyer,
+      idempotencyKey: idemKey
+    });
+    expect(conflict.statusCode).toBe(409);
+    expect(JSON.parse(conflict.body).error.code).toBe('idempotency_conflict');
+  });
+
+  it('enforces request_payload size limits', async () => {
+    const offerPayload = {
+      title: 'Big payload',
+      description: 'Payload cap check',
+      tags: ['limits'],
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000',
+      active: true
+    };
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerPayload,
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const big = 'a'.repeat(70 * 1024);
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { text: big }
+      },
+      keypair: buyer
+    });
+    expect(jobRes.statusCode).toBe(413);
+    expect(JSON.parse(jobRes.body).error.code).toBe('payload_too_large');
+  });
+
+  it('filters jobs by updated_after', async () => {
+    const offerPayload = {
+      title: 'Updated After',
+      description: 'Cursor filtering',
+      tags: ['cursor'],
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000',
+      active: true
+    };
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerPayload,
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const jobRes1 = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com/1' }
+      },
+      keypair: buyer
+    });
+    expect(jobRes1.statusCode).toBe(201);
+    const job1 = JSON.parse(jobRes1.body).job;
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+
+    const jobRes2 = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com/2' }
+      },
+      keypair: buyer
+    });
+    expect(jobRes2.statusCode).toBe(201);
+    const job2 = JSON.parse(jobRes2.body).job;
+
+    const updatedAfter = new Date(job1.updated_at);
+    updatedAfter.setMilliseconds(updatedAfter.getMilliseconds() + 1);
+
+    const listRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs?role=buyer&updated_after=${encodeURIComponent(
+        updatedAfter.toISOString()
+      )}`,
+      keypair: buyer
+    });
+    expect(listRes.statusCode).toBe(200);
+    const jobs = JSON.parse(listRes.body).jobs;
+    expect(jobs).toHaveLength(1);
+    expect(jobs[0].job_id).toBe(job2.job_id);
+  });
+
+  it('validates updated_after in job listing', async () => {
+    const listRes = await signedInject({
+      method: 'GET',
+      url: '/v1/jobs?role=buyer&updated_after=not-a-date',
+      keypair: buyer
+    });
+    expect(listRes.statusCode).toBe(400);
+    expect(JSON.parse(listRes.body).error.code).toBe('validation_error');
+  });
+
+  it('orders jobs by updated_at when updated_after is set', async () => {
+    const offerPayload = {
+      title: 'Order by updated_at',
+      description: 'Ordering check',
+      tags: ['order'],
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000',
+      active: true
+    };
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerPayload,
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const jobRes1 = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com/1' }
+      },
+      keypair: buyer
+    });
+    expect(jobRes1.statusCode).toBe(201);
+    const job1 = JSON.parse(jobRes1.body).job;
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const jobRes2 = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: {
+        offer_id: offer.offer_id,
+        request_payload: { url: 'https://example.com/2' }
+      },
+      keypair: buyer
+    });
+    expect(jobRes2.statusCode).toBe(201);
+    const job2 = JSON.parse(jobRes2.body).job;
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    const quoteRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job1.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress',
+        quote_expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString()
+      },
+      keypair: seller
+    });
+    expect(quoteRes.statusCode).toBe(200);
+
+    const listRes = await signedInject({
+      method: 'GET',
+      url: '/v1/jobs?role=seller&updated_after=1970-01-01T00:00:00Z',
+      keypair: seller
+    });
+    expect(listRes.statusCode).toBe(200);
+    const jobs = JSON.parse(listRes.body).jobs;
+    expect(jobs).toHaveLength(2);
+    expect(jobs[0].job_id).toBe(job2.job_id);
+    expect(jobs[1].job_id).toBe(job1.job_id);
+  });
+
+  it('pages jobs and offers with keyset cursors', async () => {
+    const offerIds: string[] = [];
+    for (const title of ['Cursor A', 'Cursor B', 'Cursor C']) {
+      const offerRes = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: {
+          title,
+          description: 'Keyset paging',
+          tags: ['keyset'],
+          pricing_mode: 'fixed',
+          fixed_price_raw: '1000',
+          active: true
+        },
+        keypair: seller
+      });
+      expect(offerRes.statusCode).toBe(201);
+      offerIds.push(JSON.parse(offerRes.body).offer.offer_id);
+    }
+
+    const jobIds: string[] = [];
+    for (const offerId of offerIds) {
+      const jobRes = await signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: { offer_id: offerId, request_payload: {} },
+        keypair: buyer
+      });
+      expect(jobRes.statusCode).toBe(201);
+      jobIds.push(JSON.parse(jobRes.body).job.job_id);
+    }
+
+    const firstPage = await signedInject({
+      method: 'GET',
+      url: '/v1/jobs?role=seller&limit=2&updated_after=1970-01-01T00:00:00Z',
+      keypair: seller
+    });
+    expect(firstPage.statusCode).toBe(200);
+    const first = JSON.parse(firstPage.body);
+    expect(first.jobs.map((job: { job_id: string }) => job.job_id)).toEqual(
+      jobIds.slice(0, 2)
+    );
+    expect(first.total).toBe(3);
+    expect(first.next_cursor).toEqual(expect.any(String));
+    expect(first.jobs[0]).not.toHaveProperty('cursor_at');
+
+    // A job updated between pages moves behind the cursor instead of shifting
+    // the remaining rows, so nothing is skipped.
+    const quoteRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${jobIds[0]}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress',
+        quote_expires_at: new Date(Date.now() + 5 * 60 * 1000).toISOString()
+      },
+      keypair: seller
+    });
+    expect(quoteRes.statusCode).toBe(200);
+
+    const secondPage = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs?role=seller&limit=2&updated_after=1970-01-01T00:00:00Z&cursor=${first.next_cursor}`,
+      keypair: seller
+    });
+    expect(secondPage.statusCode).toBe(200);
+    const second = JSON.parse(secondPage.body);
+    expect(second.jobs.map((job: { job_id: string }) => job.job_id)).toEqual([
+      jobIds[2],
+      jobIds[0]
+    ]);
+    expect(second.next_cursor).toBeNull();
+    expect(second).not.toHaveProperty('total');
+
+    const mismatched = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs?role=seller&cursor=${first.next_cursor}`,
+      keypair: seller
+    });
+    expect(mismatched.statusCode).toBe(400);
+    const combined = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs?role=seller&updated_after=1970-01-01T00:00:00Z&offset=0&cursor=${first.next_cursor}`,
+      keypair: seller
+    });
+    expect(combined.statusCode).toBe(400);
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    do {
+      const pageRes = await server.inject({
+        method: 'GET',
+        url: `/v1/offers?tags=keyset&limit=1${cursor ? `&cursor=${cursor}` : ''}`
+      });
+      expect(pageRes.statusCode).toBe(200);
+      const page = JSON.parse(pageRes.body);
+      seen.push(...page.offers.map((offer: { offer_id: string }) => offer.offer_id));
+      cursor = page.next_cursor;
+    } while (cursor);
+    expect(seen).toEqual([...offerIds].reverse());
+
+    const badCursor = await server.inject({
+      method: 'GET',
+      url: '/v1/offers?cursor=not-a-cursor'
+    });
+    expect(badCursor.statusCode).toBe(400);
+  });
+
+  it('creates jobs in batches with per-item results', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Batch',
+        description: 'Batch create check',
+        tags: ['batch'],
+        pricing_mode: 'quote',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const missingOffer = '00000000-0000-4000-8000-000000000000';
+    const batch = (body: unknown) =>
+      signedInject({ method: 'POST', url: '/v1/jobs/batch', body, keypair: buyer });
+    const countJobs = async () =>
+      (await server.db.selectFrom('jobs').select('job_id').execute()).length;
+
+    const items = [
+      { offer_id: offer.offer_id, request_payload: { n: 1 }, client_reference: 'ref-1' },
+      { offer_id: missingOffer, request_payload: { n: 2 } },
+      { offer_id: offer.offer_id, request_payload: { n: 3 } }
+    ];
+    const first = await batch({ jobs: items });
+    expect(first.statusCode).toBe(200);
+    const firstResults = JSON.parse(first.body).results;
+    expect(firstResults.map((result: { status: number }) => result.status)).toEqual([
+      201, 404, 201
+    ]);
+    expect(firstResults[0].client_reference).toBe('ref-1');
+    expect(firstResults[1].error.code).toBe('not_found');
+    expect(await countJobs()).toBe(2);
+
+    const again = JSON.parse((await batch({ jobs: items.slice(0, 1) })).body).results;
+    expect(again[0]).toMatchObject({ status: 200, replayed: true });
+    expect(again[0].job.job_id).toBe(firstResults[0].job.job_id);
+
+    const single = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { ...items[0], request_payload: { n: 9 } },
+      keypair: buyer
+    });
+    expect(single.statusCode).toBe(409);
+    expect(JSON.parse(single.body).error.code).toBe('idempotency_conflict');
+
+    const rejected = await batch({
+      atomic: true,
+      jobs: [
+        { offer_id: offer.offer_id, request_payload: { n: 4 } },
+        { offer_id: missingOffer, request_payload: { n: 5 } }
+      ]
+    });
+    expect(rejected.statusCode).toBe(400);
+    const rejectedBody = JSON.parse(rejected.body);
+    expect(rejectedBody.error.code).toBe('batch_rejected');
+    expect(rejectedBody.error.details.results).toHaveLength(1);
+    expect(rejectedBody.error.details.results[0].index).toBe(1);
+    expect(await countJobs()).toBe(2);
+
+    const atomic = await batch({
+      atomic: true,
+      jobs: [
+        { offer_id: offer.offer_id, request_payload: { n: 6 }, client_reference: 'ref-2' },
+        { offer_id: offer.offer_id, request_payload: { n: 7 } }
+      ]
+    });
+    expect(atomic.statusCode).toBe(201);
+    expect(
+      JSON.parse(atomic.body).results.map((result: { status: number }) => result.status)
+    ).toEqual([201, 201]);
+    expect(await countJobs()).toBe(4);
+
+    const duplicate = await batch({
+      jobs: [
+        { offer_id: offer.offer_id, request_payload: {}, client_reference: 'dup' },
+        { offer_id: offer.offer_id, request_payload: {}, client_reference: 'dup' }
+      ]
+    });
+    expect(duplicate.statusCode).toBe(400);
+    expect(JSON.parse(duplicate.body).error.code).toBe('validation_error');
+  });
+
+  it('expires stale quotes and unpaid acceptances in the sweeper', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Expiry sweep',
+        description: 'Sweeper check',
+        tags: ['expiry'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const createQuotedJob = async () => {
+      const jobRes = await signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: {
+          offer_id: offer.offer_id,
+          request_payload: { url: 'https://example.com/expiry' }
+        },
+        keypair: buyer
+      });
+      expect(jobRes.statusCode).toBe(201);
+      const job = JSON.parse(jobRes.body).job;
+      const quoteRes = await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/quote`,
+        body: {
+          quote_amount_raw: '1000',
+          quote_invoice_address: 'nano_1exampleaddress'
+        },
+        keypair: seller
+      });
+      expect(quoteRes.statusCode).toBe(200);
+      return job.job_id as string;
+    };
+
+    const quotedId = await createQuotedJob();
+    const acceptedId = await createQuotedJob();
+    const freshId = await createQuotedJob();
+
+    const acceptRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${acceptedId}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    expect(acceptRes.statusCode).toBe(200);
+    expect(JSON.parse(acceptRes.body).job.accepted_at).not.toBeNull();
+
+    await server.db
+      .updateTable('jobs')
+      .set({ quote_expires_at: new Date(Date.now() - 1000) })
+      .where('job_id', '=', quotedId)
+      .execute();
+    await server.db
+      .updateTable('jobs')
+      .set({ accepted_at: new Date(Date.now() - 31 * 60 * 1000) })
+      .where('job_id', '=', acceptedId)
+      .execute();
+
+    const result = await server.expirySweeper.sweep();
+    expect(result).toMatchObject({
+      skipped: false,
+      expiredQuotes: 1,
+      expiredAcceptances: 1
+    });
+
+    const statuses = await server.db
+      .selectFrom('jobs')
+      .select(['job_id', 'status'])
+      .execute();
+    const byId = new Map(statuses.map((row) => [row.job_id, row.status]));
+    expect(byId.get(quotedId)).toBe('expired');
+    expect(byId.get(acceptedId)).toBe('expired');
+    expect(byId.get(freshId)).toBe('quoted');
+    expect(
+      server.metrics.snapshot().counters['job.transition{from=quoted,to=expired}']
+    ).toBeGreaterThanOrEqual(1);
+  });
+
+  it('fails jobs that miss their deliver_by deadline', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Deadline',
+        description: 'Delivery deadline check',
+        tags: ['expiry'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const createJob = (deliverBy: Date) =>
+      signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: {
+          offer_id: offer.offer_id,
+          request_payload: {},
+          deliver_by: deliverBy.toISOString()
+        },
+        keypair: buyer
+      });
+
+    const late = await createJob(new Date(Date.now() - 1000));
+    expect(late.statusCode).toBe(400);
+    expect(JSON.parse(late.body).error.message).toBe('deliver_by out of range');
+
+    const deadline = new Date(Date.now() + 60 * 60 * 1000);
+    const requestedRes = await createJob(deadline);
+    expect(requestedRes.statusCode).toBe(201);
+    const requested = JSON.parse(requestedRes.body).job;
+    expect(requested.deliver_by).toBe(deadline.toISOString());
+
+    const paid = JSON.parse((await createJob(deadline)).body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${paid.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${paid.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${paid.job_id}/payment`,
+      body: { payment_tx_hash: 'deadlinehash' },
+      keypair: buyer
+    });
+
+    await server.db
+      .updateTable('jobs')
+      .set({ deliver_by: new Date(Date.now() - 1000) })
+      .where('job_id', 'in', [requested.job_id, paid.job_id])
+      .execute();
+
+    const lockRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${paid.job_id}/lock`,
+      body: {},
+      keypair: seller
+    });
+    expect(lockRes.statusCode).toBe(409);
+    expect(JSON.parse(lockRes.body).error.message).toBe('Delivery deadline passed');
+
+    const result = await server.expirySweeper.sweep();
+    expect(result).toMatchObject({ skipped: false, missedDeadlines: 2 });
+
+    const failed = await server.db
+      .selectFrom('jobs')
+      .select(['job_id', 'status', 'error'])
+      .where('job_id', 'in', [requested.job_id, paid.job_id])
+      .execute();
+    for (const job of failed) {
+      expect(job.status).toBe('failed');
+      expect(job.error).toMatchObject({ code: 'deadline_passed' });
+    }
+    expect(
+      server.metrics.snapshot().counters['job.transition{from=requested,to=failed}']
+    ).toBe(1);
+    expect(
+      server.metrics.snapshot().counters['job.transition{from=accepted,to=failed}']
+    ).toBe(1);
+  });
+
+  it('fails running jobs after repeated lock expirations', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Stuck job',
+        description: 'Lock attempt check',
+        tags: ['expiry'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    expect(job.attempts).toBe(0);
+    expect(job.max_attempts).toBe(3);
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'STUCK123' },
+      keypair: buyer
+    });
+    await server.db
+      .updateTable('jobs')
+      .set({ max_attempts: 2 })
+      .where('job_id', '=', job.job_id)
+      .execute();
+
+    const lockAndAbandon = async () => {
+      const lockRes = await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/lock`,
+        body: {},
+        keypair: seller
+      });
+      expect(lockRes.statusCode).toBe(200);
+      await server.db
+        .updateTable('jobs')
+        .set({ lock_expires_at: new Date(Date.now() - 1000) })
+        .where('job_id', '=', job.job_id)
+        .execute();
+      return server.expirySweeper.sweep();
+    };
+
+    const first = await lockAndAbandon();
+    expect(first).toMatchObject({ releasedLocks: 1, failedLocks: 0 });
+    const released = await server.db
+      .selectFrom('jobs')
+      .selectAll()
+      .where('job_id', '=', job.job_id)
+      .executeTakeFirstOrThrow();
+    expect(released.status).toBe('running');
+    expect(released.attempts).toBe(1);
+    expect(released.lock_owner).toBeNull();
+
+    const second = await lockAndAbandon();
+    expect(second).toMatchObject({ releasedLocks: 0, failedLocks: 1 });
+
+    const getRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}`,
+      keypair: buyer
+    });
+    const failed = JSON.parse(getRes.body).job;
+    expect(failed.status).toBe('failed');
+    expect(failed.attempts).toBe(2);
+    expect(failed.lock_owner).toBeNull();
+    expect(failed.error).toEqual({
+      code: 'lock_expired',
+      message: 'Seller lock expired without a delivery',
+      details: { attempts: 2 }
+    });
+
+    const eventsRes = await signedInject({
+      method: 'GET',
+      url: '/v1/events?role=buyer',
+      keypair: buyer
+    });
+    const types = JSON.parse(eventsRes.body).events.map(
+      (event: { type: string }) => event.type
+    );
+    expect(types[types.length - 1]).toBe('job.failed');
+
+    const counters = server.metrics.snapshot().counters;
+    expect(counters['job.lock_expired{outcome=released}']).toBeGreaterThanOrEqual(1);
+    expect(counters['job.lock_expired{outcome=failed}']).toBeGreaterThanOrEqual(1);
+  });
+
+  it('fails running jobs nobody re-locks after a lease expires', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Abandoned job',
+        description: 'Idle lease check',
+        tags: ['expiry'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'IDLE123' },
+      keypair: buyer
+    });
+    const lockRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/lock`,
+      body: {},
+      keypair: seller
+    });
+    expect(lockRes.statusCode).toBe(200);
+
+    // The seller dies: its lease lapses, then each lock TTL without a new
+    // lease counts as another attempt until max_attempts (3) fails the job.
+    const lapse = async (agoMs: number) => {
+      await server.db
+        .updateTable('jobs')
+        .set({ lock_expires_at: new Date(Date.now() - agoMs) })
+        .where('job_id', '=', job.job_id)
+        .execute();
+      return server.expirySweeper.sweep();
+    };
+    const lockTtlMs = 5 * 60 * 1000;
+    expect(await lapse(1000)).toMatchObject({ releasedLocks: 1, failedLocks: 0 });
+    expect(await server.expirySweeper.sweep()).toMatchObject({
+      releasedLocks: 0,
+      failedLocks: 0
+    });
+    expect(await lapse(lockTtlMs + 1000)).toMatchObject({
+      releasedLocks: 1,
+      failedLocks: 0
+    });
+    expect(await lapse(lockTtlMs + 1000)).toMatchObject({
+      releasedLocks: 0,
+      failedLocks: 1
+    });
+
+    const getRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}`,
+      keypair: buyer
+    });
+    const failed = JSON.parse(getRes.body).job;
+    expect(failed.status).toBe('failed');
+    expect(failed.attempts).toBe(3);
+    expect(failed.error).toMatchObject({
+      code: 'lock_expired',
+      details: { attempts: 3 }
+    });
+  });
+
+  it('rejects payments after the accept-to-payment window', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Payment window',
+        description: 'Payment TTL check',
+        tags: ['expiry'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await server.db
+      .updateTable('jobs')
+      .set({ accepted_at: new Date(Date.now() - 31 * 60 * 1000) })
+      .where('job_id', '=', job.job_id)
+      .execute();
+
+    const paymentRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'ABC123' },
+      keypair: buyer
+    });
+    expect(paymentRes.statusCode).toBe(409);
+    expect(JSON.parse(paymentRes.body).error.code).toBe('invalid_state');
+
+    const getRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}`,
+      keypair: buyer
+    });
+    expect(JSON.parse(getRes.body).job.status).toBe('expired');
+  });
+
+  it('verifies payment blocks through a pluggable verifier', async () => {
+    const invoice = 'nano_1exampleaddress';
+    const blocks = new Map<string, NanoBlockInfo>();
+    const block = (hash: string, overrides: Partial<NanoBlockInfo> = {}) =>
+      blocks.set(hash, {
+        hash,
+        amountRaw: '1000',
+        destination: invoice,
+        confirmed: true,
+        subtype: 'send',
+        blockType: 'state',
+        ...overrides
+      });
+    block('short', { amountRaw: '999' });
+    block('elsewhere', { destination: 'nano_1someoneelse' });
+    block('pending', { confirmed: false });
+    block('good', { amountRaw: '1500' });
+    const rpc = {
+      getBlockInfo: async (hash: string) => {
+        const info = blocks.get(hash);
+        return info
+          ? { ok: true as const, data: info }
+          : { ok: false as const, error: 'Block not found' };
+      },
+      getReceivable: async () => ({ ok: true as const, data: [] })
+    };
+    const verifying = await buildServer(process.env.DATABASE_URL, {
+      paymentVerifier: new PaymentVerifier({ rpc, minConfirmations: 1 })
+    });
+    await verifying.ready();
+
+    try {
+      const offerRes = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: {
+          title: 'Verified',
+          description: 'Payment verification check',
+          tags: ['payment'],
+          pricing_mode: 'fixed',
+          fixed_price_raw: '1000',
+          active: true
+        },
+        keypair: seller
+      });
+      const offer = JSON.parse(offerRes.body).offer;
+      const jobRes = await signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: { offer_id: offer.offer_id, request_payload: {} },
+        keypair: buyer
+      });
+      const job = JSON.parse(jobRes.body).job;
+      await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/quote`,
+        body: { quote_amount_raw: '1000', quote_invoice_address: invoice },
+        keypair: seller
+      });
+      await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/accept`,
+        body: {},
+        keypair: buyer
+      });
+
+      const pay = (hash: string) =>
+        signedInject({
+          method: 'POST',
+          url: `/v1/jobs/${job.job_id}/payment`,
+          body: { payment_tx_hash: hash },
+          keypair: buyer,
+          target: verifying
+        });
+
+      const rejected = [
+        ['MISSING', 400, 'payment.not_found'],
+        ['short', 400, 'payment.amount_mismatch'],
+        ['elsewhere', 400, 'payment.address_mismatch'],
+        ['pending', 409, 'payment.unconfirmed']
+      ] as const;
+      for (const [hash, status, code] of rejected) {
+        const res = await pay(hash);
+        expect(res.statusCode).toBe(status);
+        expect(JSON.parse(res.body).error.code).toBe(code);
+      }
+
+      const paid = await pay('GOOD');
+      expect(paid.statusCode).toBe(200);
+      const paidJob = JSON.parse(paid.body).job;
+      expect(paidJob.payment_tx_hash).toBe('good');
+      expect(paidJob.payment_verified_at).toEqual(expect.any(String));
+      expect(
+        verifying.metrics.snapshot().counters[
+          'payment.verification{result=verified}'
+        ]
+      ).toBe(1);
+    } finally {
+      await verifying.close();
+    }
+  });
+
+  it('accepts signed payment blocks offline and confirms them later', async () => {
+    const seed = '1'.repeat(64);
+    const buyerKey = deriveSecretKey(seed, 0);
+    const invoice = deriveAddress(derivePublicKey(deriveSecretKey(seed, 1)), {
+      useNanoPrefix: true
+    });
+    const representative = deriveAddress(derivePublicKey(buyerKey), {
+      useNanoPrefix: true
+    });
+    const opened = createBlock(buyerKey, {
+      work: null,
+      previous: null,
+      representative,
+      balance: '5000',
+      link: 'A'.repeat(64)
+    });
+    const send = (balance: string, link = invoice) =>
+      createBlock(buyerKey, {
+        work: null,
+        previous: opened.hash,
+        representative,
+        balance,
+        link
+      });
+    const blocks = new Map<string, NanoBlockInfo>();
+    const rpc = {
+      getBlockInfo: async (hash: string) => {
+        const info = blocks.get(hash);
+        return info
+          ? { ok: true as const, data: info }
+          : { ok: false as const, error: 'Block not found' };
+      },
+      getReceivable: async () => ({ ok: true as const, data: [] })
+    };
+    const verifying = await buildServer(process.env.DATABASE_URL, {
+      paymentVerifier: new PaymentVerifier({ rpc, minConfirmations: 1 })
+    });
+    await verifying.ready();
+
+    try {
+      const offerRes = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: {
+          title: 'Proof',
+          description: 'Offline payment proof check',
+          tags: ['payment'],
+          pricing_mode: 'fixed',
+          fixed_price_raw: '1000',
+          active: true
+        },
+        keypair: seller
+      });
+      const offer = JSON.parse(offerRes.body).offer;
+      const createAcceptedJob = async () => {
+        const jobRes = await signedInject({
+          method: 'POST',
+          url: '/v1/jobs',
+          body: { offer_id: offer.offer_id, request_payload: {} },
+          keypair: buyer
+        });
+        const created = JSON.parse(jobRes.body).job;
+        await signedInject({
+          method: 'POST',
+          url: `/v1/jobs/${created.job_id}/quote`,
+          body: { quote_amount_raw: '1000', quote_invoice_address: invoice },
+          keypair: seller
+        });
+        await signedInject({
+          method: 'POST',
+          url: `/v1/jobs/${created.job_id}/accept`,
+          body: {},
+          keypair: buyer
+        });
+        return created;
+      };
+      const job = await createAcceptedJob();
+
+      const pay = (body: unknown, jobId: string = job.job_id) =>
+        signedInject({
+          method: 'POST',
+          url: `/v1/jobs/${jobId}/payment`,
+          body,
+          keypair: buyer,
+          target: verifying
+        });
+      const lock = () =>
+        signedInject({
+          method: 'POST',
+          url: `/v1/jobs/${job.job_id}/lock`,
+          body: {},
+          keypair: seller,
+          target: verifying
+        });
+      const proof = (block: ReturnType<typeof createBlock>) => ({
+        block: block.block,
+        previous_block: opened.block
+      });
+      const seen = (block: ReturnType<typeof createBlock>, confirmed: boolean) => {
+        blocks.set(block.hash.toLowerCase(), {
+          hash: block.hash.toLowerCase(),
+          amountRaw: '1500',
+          destination: invoice,
+          confirmed,
+          subtype: 'send',
+          blockType: 'state'
+        });
+      };
+
+      const valid = send('3500');
+      const forged = { ...valid.block, balance: '0' };
+      const rejected = [
+        [{ payment_proof: proof(send('4500')) }, 'payment.amount_mismatch'],
+        [{ payment_proof: proof(send('3000', representative)) }, 'payment.address_mismatch'],
+        [{ payment_proof: { block: forged, previous_block: opened.block } }, 'payment.bad_signature'],
+        [{ payment_proof: { block: valid.block, previous_block: valid.block } }, 'payment.proof_invalid'],
+        [{ payment_tx_hash: 'abc', payment_proof: proof(valid) }, 'payment.hash_mismatch'],
+        // A reachable node that never saw the block: it may never have been
+        // broadcast.
+        [{ payment_proof: proof(valid) }, 'payment.not_found']
+      ] as const;
+      for (const [body, code] of rejected) {
+        const res = await pay(body);
+        expect(res.statusCode).toBe(400);
+        expect(JSON.parse(res.body).error.code).toBe(code);
+      }
+
+      // The node has the block but not its confirmation; the signed proof
+      // still counts.
+      seen(valid, false);
+      const paid = await pay({ payment_proof: proof(valid) });
+      expect(paid.statusCode).toBe(200);
+      const paidJob = JSON.parse(paid.body).job;
+      expect(paidJob.payment_tx_hash).toBe(valid.hash.toLowerCase());
+      expect(paidJob.payment_proof.block.signature).toBe(valid.block.signature);
+      expect(paidJob.payment_verified_at).toBeNull();
+
+      const early = await lock();
+      expect(early.statusCode).toBe(409);
+      expect(JSON.parse(early.body).error.code).toBe('payment.unconfirmed');
+
+      expect(await verifying.paymentConfirmer?.confirm()).toEqual({
+        checked: 1,
+        confirmed: 0,
+        failed: 0
+      });
+      seen(valid, true);
+      expect(await verifying.paymentConfirmer?.confirm()).toEqual({
+        checked: 1,
+        confirmed: 1,
+        failed: 0
+      });
+      const after = await signedInject({
+        method: 'GET',
+        url: `/v1/jobs/${job.job_id}`,
+        keypair: seller
+      });
+      expect(JSON.parse(after.body).job.payment_verified_at).toEqual(
+        expect.any(String)
+      );
+      expect((await lock()).statusCode).toBe(200);
+
+      // The node later loses the block it reported: the job fails instead of
+      // waiting forever.
+      const dropped = await createAcceptedJob();
+      const droppedBlock = send('3400');
+      seen(droppedBlock, false);
+      expect(
+        (await pay({ payment_proof: proof(droppedBlock) }, dropped.job_id)).statusCode
+      ).toBe(200);
+      blocks.delete(droppedBlock.hash.toLowerCase());
+      expect(await verifying.paymentConfirmer?.confirm()).toEqual({
+        checked: 1,
+        confirmed: 0,
+        failed: 1
+      });
+      const failedRes = await signedInject({
+        method: 'GET',
+        url: `/v1/jobs/${dropped.job_id}`,
+        keypair: buyer
+      });
+      expect(JSON.parse(failedRes.body).job).toMatchObject({
+        status: 'failed',
+        error: {
+          code: 'payment_contradicted',
+          details: { reason: 'payment.not_found' }
+        }
+      });
+    } finally {
+      await verifying.close();
+    }
+  });
+
+  it('rejects payment hashes already claimed by another job', async () => {
+    const otherSeller = createKeypair();
+    const createAcceptedJob = async (
+      keypair: ReturnType<typeof createKeypair>
+    ) => {
+      const offerRes = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: {
+          title: 'Replay',
+          description: 'Payment hash reuse check',
+          tags: ['payment'],
+          pricing_mode: 'fixed',
+          fixed_price_raw: '1000',
+          active: true
+        },
+        keypair
+      });
+      const offer = JSON.parse(offerRes.body).offer;
+      const jobRes = await signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: { offer_id: offer.offer_id, request_payload: {} },
+        keypair: buyer
+      });
+      const job = JSON.parse(jobRes.body).job;
+      await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/quote`,
+        body: {
+          quote_amount_raw: '1000',
+          quote_invoice_address: 'nano_1exampleaddress'
+        },
+        keypair
+      });
+      await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/accept`,
+        body: {},
+        keypair: buyer
+      });
+      return job.job_id as string;
+    };
+    const firstId = await createAcceptedJob(seller);
+    const secondId = await createAcceptedJob(otherSeller);
+
+    const first = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${firstId}/payment`,
+      body: { payment_tx_hash: 'ABCDEF0123' },
+      keypair: buyer
+    });
+    expect(first.statusCode).toBe(200);
+    expect(JSON.parse(first.body).job.payment_tx_hash).toBe('abcdef0123');
+
+    const replay = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${secondId}/payment`,
+      body: { payment_tx_hash: ' abcdef0123 ' },
+      keypair: buyer
+    });
+    expect(replay.statusCode).toBe(409);
+    expect(JSON.parse(replay.body).error.code).toBe('payment.hash_reused');
+
+    const check = async (
+      hash: string,
+      keypair: ReturnType<typeof createKeypair>
+    ) => {
+      const res = await signedInject({
+        method: 'GET',
+        url: `/v1/payment-hashes/${hash}`,
+        keypair
+      });
+      expect(res.statusCode).toBe(200);
+      return JSON.parse(res.body);
+    };
+    expect(await check('ABCDEF0123', seller)).toEqual({
+      payment_tx_hash: 'abcdef0123',
+      claimed: true,
+      job_id: firstId
+    });
+    expect(await check('abcdef0123', otherSeller)).toEqual({
+      payment_tx_hash: 'abcdef0123',
+      claimed: true,
+      job_id: null
+    });
+    expect((await check('0123456789', otherSeller)).claimed).toBe(false);
+  });
+
+  it('records job events and pages them by event_id', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Events',
+        description: 'Event log check',
+        tags: ['events'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    const paymentRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'ABC123' },
+      keypair: buyer
+    });
+    expect(paymentRes.statusCode).toBe(200);
+
+    const allRes = await signedInject({
+      method: 'GET',
+      url: '/v1/events',
+      keypair: buyer
+    });
+    expect(allRes.statusCode).toBe(200);
+    const all = JSON.parse(allRes.body);
+    expect(all.events.map((event: { type: string }) => event.type)).toEqual([
+      'job.requested',
+      'job.quoted',
+      'job.accepted',
+      'job.payment_submitted'
+    ]);
+    expect(all.next_after).toBe(all.events[3].event_id);
+
+    const pageRes = await signedInject({
+      method: 'GET',
+      url: `/v1/events?role=seller&after=${all.events[1].event_id}&limit=1`,
+      keypair: seller
+    });
+    expect(pageRes.statusCode).toBe(200);
+    const page = JSON.parse(pageRes.body);
+    expect(page.events).toHaveLength(1);
+    expect(page.events[0].type).toBe('job.accepted');
+    expect(page.events[0].job_id).toBe(job.job_id);
+
+    const stranger = createKeypair();
+    const strangerRes = await signedInject({
+      method: 'GET',
+      url: '/v1/events',
+      keypair: stranger
+    });
+    expect(JSON.parse(strangerRes.body).events).toHaveLength(0);
+
+    const invalidRes = await signedInject({
+      method: 'GET',
+      url: '/v1/events?after=abc',
+      keypair: buyer
+    });
+    expect(invalidRes.statusCode).toBe(400);
+  });
+
+  it('streams job events over SSE and resumes from Last-Event-ID', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Streaming',
+        description: 'SSE check',
+        tags: ['events'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+
+    const address = await server.listen({ port: 0, host: '127.0.0.1' });
+    const path = '/v1/events/stream?role=seller';
+
+    const openStream = async (lastEventId?: string) => {
+      const headers: Record<string, string> = authHeaders({
+        method: 'GET',
+        path,
+        body: Buffer.alloc(0),
+        keypair: seller
+      });
+      if (lastEventId) {
+        headers['last-event-id'] = lastEventId;
+      }
+      const controller = new AbortController();
+      const res = await fetch(`${address}${path}`, {
+        headers,
+        signal: controller.signal
+      });
+      const reader = res.body!.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      const readUntil = async (needle: string) => {
+        while (!buffer.includes(needle)) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+        }
+        return buffer;
+      };
+      const close = () => {
+        controller.abort();
+        return reader.cancel().catch(() => undefined);
+      };
+      return { res, readUntil, close };
+    };
+
+    const first = await openStream();
+    expect(first.res.status).toBe(200);
+    expect(first.res.headers.get('content-type')).toContain('text/event-stream');
+    const initial = await first.readUntil('event: job.requested');
+    const requestedId = /id: (\d+)\nevent: job\.requested/.exec(initial)?.[1];
+    expect(requestedId).toBeDefined();
+
+    const quoteRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    expect(quoteRes.statusCode).toBe(200);
+    const live = await first.readUntil('event: job.quoted');
+    expect(live).toContain(job.job_id);
+    await first.close();
+
+    const resumed = await openStream(requestedId);
+    const replay = await resumed.readUntil('event: job.quoted');
+    expect(replay).not.toContain('event: job.requested');
+    await resumed.close();
+  });
+
+  it('authenticates WebSocket sessions and renews locks over the socket', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Socket',
+        description: 'WebSocket check',
+        tags: ['ws'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'WS123' },
+      keypair: buyer
+    });
+
+    const openSocket = async () => {
+      const socket = await server.injectWS('/v1/ws');
+      const inbox: Array<Record<string, any>> = [];
+      const waiters: Array<() => void> = [];
+      socket.on('message', (data: Buffer) => {
+        inbox.push(JSON.parse(data.toString('utf8')));
+        waiters.splice(0).forEach((wake) => wake());
+      });
+      const next = async (type: string) => {
+        for (;;) {
+          const index = inbox.findIndex((message) => message.type === type);
+          if (index >= 0) return inbox.splice(index, 1)[0];
+          await new Promise<void>((resolve) => waiters.push(resolve));
+        }
+      };
+      // The greeting challenge can arrive before this listener is attached.
+      socket.send(json({ type: 'challenge' }));
+      return { socket, next };
+    };
+
+    const impostor = await openSocket();
+    const impostorChallenge = await impostor.next('challenge');
+    const closed = new Promise<number>((resolve) =>
+      impostor.socket.on('close', (code: number) => resolve(code))
+    );
+    impostor.socket.send(
+      json({
+        type: 'auth',
+        pubkey: seller.publicKey,
+        signature: signNonce(impostorChallenge.nonce, buyer.privateKey)
+      })
+    );
+    const rejected = await impostor.next('error');
+    expect(rejected.error.code).toBe('auth.invalid_signature');
+    expect(await closed).toBe(4401);
+
+    const session = await openSocket();
+    const challenge = await session.next('challenge');
+    session.socket.send(json({ type: 'lock', job_id: job.job_id }));
+    const early = await session.next('error');
+    expect(early.error.code).toBe('auth.invalid_signature');
+    session.socket.terminate();
+
+    const seller2 = await openSocket();
+    const challenge2 = await seller2.next('challenge');
+    expect(challenge2.nonce).not.toBe(challenge.nonce);
+    seller2.socket.send(
+      json({
+        type: 'auth',
+        pubkey: seller.publicKey,
+        signature: signNonce(challenge2.nonce, seller.privateKey)
+      })
+    );
+    expect((await seller2.next('authenticated')).pubkey).toBe(seller.publicKey);
+
+    seller2.socket.send(json({ type: 'subscribe', role: 'seller' }));
+    await seller2.next('subscribed');
+    const requested = await seller2.next('event');
+    expect(requested.event.type).toBe('job.requested');
+
+    seller2.socket.send(
+      json({ type: 'lock', job_id: job.job_id, request_id: 'renew-1' })
+    );
+    const locked = await seller2.next('lock');
+    expect(locked.request_id).toBe('renew-1');
+    expect(locked.job.status).toBe('running');
+    expect(locked.job.lock_owner).toBe(seller.publicKey);
+
+    for (;;) {
+      const { event } = await seller2.next('event');
+      if (event.type === 'job.running') break;
+    }
+
+    seller2.socket.send(
+      json({
+        type: 'lock',
+        job_id: job.job_id,
+        lock_token: locked.job.lock_token,
+        request_id: 'renew-2'
+      })
+    );
+    const renewed = await seller2.next('lock');
+    expect(renewed.job.lock_token).toBe(locked.job.lock_token);
+    expect(new Date(renewed.job.lock_expires_at).getTime()).toBeGreaterThanOrEqual(
+      new Date(locked.job.lock_expires_at).getTime()
+    );
+
+    const buyerSession = await openSocket();
+    const buyerChallenge = await buyerSession.next('challenge');
+    buyerSession.socket.send(
+      json({
+        type: 'auth',
+        pubkey: buyer.publicKey,
+        signature: signNonce(buyerChallenge.nonce, buyer.privateKey)
+      })
+    );
+    await buyerSession.next('authenticated');
+    buyerSession.socket.send(
+      json({ type: 'lock', job_id: job.job_id, request_id: 'steal' })
+    );
+    const forbidden = await buyerSession.next('error');
+    expect(forbidden.request_id).toBe('steal');
+    expect(forbidden.error.code).toBe('forbidden');
+
+    seller2.socket.terminate();
+    buyerSession.socket.terminate();
+  });
+
+  it('fences stale lock holders and releases locks', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Fencing',
+        description: 'Lock token check',
+        tags: ['lock'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'LOCK123' },
+      keypair: buyer
+    });
+
+    const lock = (body: Record<string, unknown>) =>
+      signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/lock`,
+        body,
+        keypair: seller
+      });
+    const deliver = (lockToken: number) =>
+      signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/deliver`,
+        body: {
+          lock_token: lockToken,
+          result_url: 'https://example.com/results/fenced'
+        },
+        keypair: seller
+      });
+
+    const first = await lock({});
+    expect(first.statusCode).toBe(200);
+    const firstToken = JSON.parse(first.body).job.lock_token;
+
+    // A second worker under the same seller pubkey cannot take a live lease,
+    // while the holder can still renew it.
+    const contender = await lock({});
+    expect(contender.statusCode).toBe(409);
+    expect(JSON.parse(contender.body).error.code).toBe('lock_held');
+    const renewed = await lock({ lock_token: firstToken });
+    expect(renewed.statusCode).toBe(200);
+    expect(JSON.parse(renewed.body).job.lock_token).toBe(firstToken);
+
+    // The first worker's lease lapses and a second worker takes over.
+    await server.db
+      .updateTable('jobs')
+      .set({ lock_expires_at: new Date(Date.now() - 1000) })
+      .where('job_id', '=', job.job_id)
+      .execute();
+    const stale = await lock({ lock_token: firstToken });
+    expect(stale.statusCode).toBe(409);
+    expect(JSON.parse(stale.body).error.message).toBe('Stale lock token');
+
+    const second = await lock({});
+    expect(second.statusCode).toBe(200);
+    const secondToken = JSON.parse(second.body).job.lock_token;
+    expect(secondToken).toBeGreaterThan(firstToken);
+
+    const missingToken = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/deliver`,
+      body: { result_url: 'https://example.com/results/fenced' },
+      keypair: seller
+    });
+    expect(missingToken.statusCode).toBe(400);
+
+    const staleDelivery = await deliver(firstToken);
+    expect(staleDelivery.statusCode).toBe(409);
+    expect(JSON.parse(staleDelivery.body).error.message).toBe('Stale lock token');
+
+    const staleUnlock = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/unlock`,
+      body: { lock_token: firstToken },
+      keypair: seller
+    });
+    expect(staleUnlock.statusCode).toBe(409);
+
+    const buyerUnlock = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/unlock`,
+      body: { lock_token: secondToken },
+      keypair: buyer
+    });
+    expect(buyerUnlock.statusCode).toBe(403);
+
+    const unlockRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/unlock`,
+      body: { lock_token: secondToken },
+      keypair: seller
+    });
+    expect(unlockRes.statusCode).toBe(200);
+    const unlocked = JSON.parse(unlockRes.body).job;
+    expect(unlocked.status).toBe('running');
+    expect(unlocked.lock_owner).toBeNull();
+    expect(unlocked.lock_expires_at).toBeNull();
+
+    const releasedDelivery = await deliver(secondToken);
+    expect(releasedDelivery.statusCode).toBe(409);
+
+    const third = await lock({});
+    expect(third.statusCode).toBe(200);
+    const thirdToken = JSON.parse(third.body).job.lock_token;
+    expect(thirdToken).toBeGreaterThan(secondToken);
+
+    const delivered = await deliver(thirdToken);
+    expect(delivered.statusCode).toBe(200);
+    expect(JSON.parse(delivered.body).job.status).toBe('delivered');
+  });
+
+  it('records progress reports from the lock holder', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Progress',
+        description: 'Progress check',
+        tags: ['progress'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: {} },
+      keypair: buyer
+    });
+    const job = JSON.parse(jobRes.body).job;
+    expect(job.progress).toBeNull();
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/quote`,
+      body: {
+        quote_amount_raw: '1000',
+        quote_invoice_address: 'nano_1exampleaddress'
+      },
+      keypair: seller
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/accept`,
+      body: {},
+      keypair: buyer
+    });
+    await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/payment`,
+      body: { payment_tx_hash: 'PROGRESS123' },
+      keypair: buyer
+    });
+
+    const report = (body: Record<string, unknown>, keypair = seller) =>
+      signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/progress`,
+        body,
+        keypair
+      });
+
+    const early = await report({ lock_token: 1, percent: 5 });
+    expect(early.statusCode).toBe(409);
+
+    const lockRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${job.job_id}/lock`,
+      body: {},
+      keypair: seller
+    });
+    const lockToken = JSON.parse(lockRes.body).job.lock_token;
+
+    expect((await report({ lock_token: lockToken })).statusCode).toBe(400);
+    expect(
+      (await report({ lock_token: lockToken, percent: 101 })).statusCode
+    ).toBe(400);
+    expect(
+      (await report({ lock_token: lockToken, percent: 10 }, buyer)).statusCode
+    ).toBe(403);
+    expect(
+      (await report({ lock_token: lockToken + 1, percent: 10 })).statusCode
+    ).toBe(409);
+
+    const first = await report({
+      lock_token: lockToken,
+      percent: 25,
+      stage: 'fetch',
+      message: 'Downloading page'
+    });
+    expect(first.statusCode).toBe(200);
+    const firstBody = JSON.parse(first.body);
+    expect(firstBody.progress).toMatchObject({
+      percent: 25,
+      stage: 'fetch',
+      message: 'Downloading page'
+    });
+    expect(firstBody.job.progress).toMatchObject({ percent: 25, stage: 'fetch' });
+
+    const second = await report({ lock_token: lockToken, percent: 80, stage: 'render' });
+    expect(second.statusCode).toBe(200);
+
+    const getRes = await signedInject({
+      method: 'GET',
+      url: `/v1/jobs/${job.job_id}`,
+      keypair: buyer
+    });
+    const body = JSON.parse(getRes.body);
+    expect(body.job.progress).toMatchObject({
+      percent: 80,
+      stage: 'render',
+      message: null
+    });
+    expect(body.job.progress.reported_at).toEqual(expect.any(String));
+    expect(
+      body.progress_history.map((entry: { percent: number }) => entry.percent)
+    ).toEqual([25, 80]);
+  });
+
+  it('delivers signed webhooks and logs failed attempts', async () => {
+    const received: Array<{
+      path: string;
+      headers: IncomingHttpHeaders;
+      body: Buffer;
+    }> = [];
+    const receiver = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk: Buffer) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({
+          path: req.url ?? '',
+          headers: req.headers,
+          body: Buffer.concat(chunks)
+        });
+        res.statusCode = req.url?.startsWith('/ok') ? 204 : 500;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) =>
+      receiver.listen(0, '127.0.0.1', resolve)
+    );
+    const { port } = receiver.address() as AddressInfo;
+    const base = `http://127.0.0.1:${port}`;
+
+    try {
+      const invalid = await signedInject({
+        method: 'POST',
+        url: '/v1/webhooks',
+        body: { url: 'ftp://example.com/hook' },
+        keypair: buyer
+      });
+      expect(invalid.statusCode).toBe(400);
+
+      const okRes = await signedInject({
+        method: 'POST',
+        url: '/v1/webhooks',
+        body: { url: `${base}/ok?source=relay` },
+        keypair: buyer
+      });
+      expect(okRes.statusCode).toBe(201);
+      const { webhook: okHook, relay_pubkey: relayPubkey } = JSON.parse(
+        okRes.body
+      );
+      const failRes = await signedInject({
+        method: 'POST',
+        url: '/v1/webhooks',
+        body: { url: `${base}/fail`, event_types: ['job.quoted'] },
+        keypair: buyer
+      });
+      const failHook = JSON.parse(failRes.body).webhook;
+      const internalHooks = [];
+      for (const url of [
+        'http://169.254.169.254/latest/meta-data',
+        `http://localhost:${port}/ok`
+      ]) {
+        const internalRes = await signedInject({
+          method: 'POST',
+          url: '/v1/webhooks',
+          body: { url, event_types: ['job.requested'] },
+          keypair: seller
+        });
+        internalHooks.push(JSON.parse(internalRes.body).webhook);
+      }
+
+      const offerRes = await signedInject({
+        method: 'POST',
+        url: '/v1/offers',
+        body: {
+          title: 'Webhooks',
+          description: 'Webhook check',
+          tags: ['hooks'],
+          pricing_mode: 'fixed',
+          fixed_price_raw: '1000',
+          active: true
+        },
+        keypair: seller
+      });
+      const offer = JSON.parse(offerRes.body).offer;
+      const jobRes = await signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: { offer_id: offer.offer_id, request_payload: {} },
+        keypair: buyer
+      });
+      const job = JSON.parse(jobRes.body).job;
+      await signedInject({
+        method: 'POST',
+        url: `/v1/jobs/${job.job_id}/quote`,
+        body: {
+          quote_amount_raw: '1000',
+          quote_invoice_address: 'nano_1exampleaddress'
+        },
+        keypair: seller
+      });
+
+      await server.webhookDispatcher.dispatch();
+
+      const delivered = received.filter((entry) => entry.path.startsWith('/ok'));
+      const deliveredTypes = delivered.map(
+        (entry) => JSON.parse(entry.body.toString()).event.type
+      );
+      expect(deliveredTypes.sort()).toEqual(['job.quoted', 'job.requested']);
+      for (const entry of delivered) {
+        expect(entry.headers['x-molt-pubkey']).toBe(relayPubkey);
+        expect(
+          verifyCanonical({
+            method: 'POST',
+            path: entry.path,
+            timestamp: entry.headers['x-molt-timestamp'] as string,
+            nonce: entry.headers['x-molt-nonce'] as string,
+            body: entry.body,
+            publicKeyHex: relayPubkey,
+            signatureHex: entry.headers['x-molt-signature'] as string
+          })
+        ).toBe(true);
+      }
+
+      const okLog = await signedInject({
+        method: 'GET',
+        url: `/v1/webhooks/${okHook.webhook_id}/deliveries`,
+        keypair: buyer
+      });
+      expect(
+        JSON.parse(okLog.body).deliveries.map(
+          (delivery: { status: string }) => delivery.status
+        )
+      ).toEqual(['delivered', 'delivered']);
+
+      const failLog = await signedInject({
+        method: 'GET',
+        url: `/v1/webhooks/${failHook.webhook_id}/deliveries?status=pending`,
+        keypair: buyer
+      });
+      const [failed] = JSON.parse(failLog.body).deliveries;
+      expect(failed).toMatchObject({
+        event_type: 'job.quoted',
+        status: 'pending',
+        attempts: 1,
+        last_status_code: 500,
+        last_error: 'http_error'
+      });
+
+      for (const internalHook of internalHooks) {
+        const internalLog = await signedInject({
+          method: 'GET',
+          url: `/v1/webhooks/${internalHook.webhook_id}/deliveries`,
+          keypair: seller
+        });
+        expect(JSON.parse(internalLog.body).deliveries).toMatchObject([
+          {
+            status: 'pending',
+            last_status_code: null,
+            last_error: 'blocked_address'
+          }
+        ]);
+      }
+      expect(new Date(failed.next_attempt_at).getTime()).toBeGreaterThan(
+        Date.now()
+      );
+
+      const foreign = await signedInject({
+        method: 'GET',
+        url: `/v1/webhooks/${failHook.webhook_id}/deliveries`,
+        keypair: seller
+      });
+      expect(foreign.statusCode).toBe(403);
+
+      const deleted = await signedInject({
+        method: 'DELETE',
+        url: `/v1/webhooks/${failHook.webhook_id}`,
+        keypair: buyer
+      });
+      expect(deleted.statusCode).toBe(200);
+      const listRes = await signedInject({
+        method: 'GET',
+        url: '/v1/webhooks',
+        keypair: buyer
+      });
+      const listed = JSON.parse(listRes.body);
+      expect(listed.relay_pubkey).toBe(relayPubkey);
+      expect(
+        listed.webhooks.map((webhook: { webhook_id: string }) => webhook.webhook_id)
+      ).toEqual([okHook.webhook_id]);
+    } finally {
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+
+  it('enforces account quotas and reports them', async () => {
+    await server.db
+      .insertInto('accounts')
+      .values([
+        { pubkey: seller.publicKey, max_active_offers: 1 },
+        { pubkey: buyer.publicKey, daily_job_limit: 3, max_open_jobs: 2 }
+      ])
+      .execute();
+    const offerBody = {
+      title: 'Quota',
+      description: 'Quota check',
+      tags: ['quota'],
+      pricing_mode: 'fixed',
+      fixed_price_raw: '1000'
+    };
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerBody,
+      keypair: seller
+    });
+    expect(offerRes.statusCode).toBe(201);
+    const offer = JSON.parse(offerRes.body).offer;
+
+    const secondOffer = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerBody,
+      keypair: seller
+    });
+    expect(secondOffer.statusCode).toBe(429);
+    expect(JSON.parse(secondOffer.body).error).toMatchObject({
+      code: 'quota_exceeded',
+      details: { quota: 'active_offers', limit: 1, used: 1 }
+    });
+    const inactive = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: { ...offerBody, active: false },
+      keypair: seller
+    });
+    expect(inactive.statusCode).toBe(201);
+    const activate = await signedInject({
+      method: 'PATCH',
+      url: `/v1/offers/${JSON.parse(inactive.body).offer.offer_id}`,
+      body: { active: true },
+      keypair: seller
+    });
+    expect(activate.statusCode).toBe(429);
+
+    const createJob = (q: string) =>
+      signedInject({
+        method: 'POST',
+        url: '/v1/jobs',
+        body: { offer_id: offer.offer_id, request_payload: { q } },
+        keypair: buyer
+      });
+    const first = await createJob('one');
+    expect(first.statusCode).toBe(201);
+    expect((await createJob('two')).statusCode).toBe(201);
+    const overOpen = await createJob('three');
+    expect(overOpen.statusCode).toBe(429);
+    expect(JSON.parse(overOpen.body).error.details.quota).toBe('open_jobs');
+
+    const cancelRes = await signedInject({
+      method: 'POST',
+      url: `/v1/jobs/${JSON.parse(first.body).job.job_id}/cancel`,
+      body: {},
+      keypair: buyer
+    });
+    expect(cancelRes.statusCode).toBe(200);
+
+    const batchRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs/batch',
+      body: {
+        jobs: [
+          { offer_id: offer.offer_id, request_payload: { q: 'four' } },
+          { offer_id: offer.offer_id, request_payload: { q: 'five' } }
+        ]
+      },
+      keypair: buyer
+    });
+    expect(batchRes.statusCode).toBe(200);
+    const results = JSON.parse(batchRes.body).results;
+    expect(results[0].status).toBe(201);
+    expect(results[1].status).toBe(429);
+    expect(results[1].error.details).toMatchObject({
+      quota: 'daily_jobs',
+      limit: 3,
+      used: 2
+    });
+
+    const quotaRes = await signedInject({
+      method: 'GET',
+      url: '/v1/account/quota',
+      keypair: buyer
+    });
+    expect(quotaRes.statusCode).toBe(200);
+    const quota = JSON.parse(quotaRes.body);
+    expect(quota).toMatchObject({
+      pubkey: buyer.publicKey,
+      tier: 'standard',
+      quotas: {
+        daily_jobs: { limit: 3, used: 3, remaining: 0 },
+        open_jobs: { limit: 2, used: 2, remaining: 0 },
+        active_offers: { limit: 100, used: 0, remaining: 100 }
+      }
+    });
+    expect(Date.parse(quota.quotas.daily_jobs.resets_at)).toBeGreaterThan(Date.now());
+
+    await server.db
+      .updateTable('accounts')
+      .set({ tier: 'unlimited', max_active_offers: null })
+      .where('pubkey', '=', seller.publicKey)
+      .execute();
+    const sellerQuota = JSON.parse(
+      (
+        await signedInject({
+          method: 'GET',
+          url: '/v1/account/quota',
+          keypair: seller
+        })
+      ).body
+    );
+    expect(sellerQuota.tier).toBe('unlimited');
+    expect(sellerQuota.quotas.active_offers).toEqual({
+      limit: null,
+      used: 1,
+      remaining: null
+    });
+    expect(sellerQuota.rate_limits).toMatchObject({ default: null, strict: null });
+    const unlimitedOffer = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: offerBody,
+      keypair: seller
+    });
+    expect(unlimitedOffer.statusCode).toBe(201);
+  });
+
+  it('exposes metrics as JSON and Prometheus text', async () => {
+    const offerRes = await signedInject({
+      method: 'POST',
+      url: '/v1/offers',
+      body: {
+        title: 'Metrics',
+        description: 'Metrics check',
+        tags: ['metrics'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000',
+        active: true
+      },
+      keypair: seller
+    });
+    const offer = JSON.parse(offerRes.body).offer;
+    const jobRes = await signedInject({
+      method: 'POST',
+      url: '/v1/jobs',
+      body: { offer_id: offer.offer_id, request_payload: { q: 'metrics' } },
+      keypair: buyer
+    });
+    expect(jobRes.statusCode).toBe(201);
+
+    const jsonRes = await server.inject({ method: 'GET', url: '/metrics' });
+    expect(jsonRes.statusCode).toBe(200);
+    expect(jsonRes.headers['content-type']).toContain('application/json');
+    const snapshot = JSON.parse(jsonRes.body);
+    expect(snapshot.counters).toBeTypeOf('object');
+    expect(snapshot.gauges['jobs.by_status{status=requested}']).toBe(1);
+    expect(snapshot.gauges['jobs.by_status{status=delivered}']).toBe(0);
+    const created = snapshot.histograms[
+      'http.request_duration_seconds{method=POST,route=/v1/jobs,status=201}'
+    ];
+    expect(created.count).toBeGreaterThanOrEqual(1);
+    expect(created.buckets['+Inf']).toBe(created.count);
+
+    const textRes = await server.inject({
+      method: 'GET',
+      url: '/metrics',
+      headers: { accept: 'text/plain;version=0.0.4' }
+    });
+    expect(textRes.statusCode).toBe(200);
+    expect(textRes.headers['content-type']).toBe(
+      'text/plain; version=0.0.4; charset=utf-8'
+    );
+    expect(textRes.body).toContain('# TYPE nanobazaar_jobs_by_status gauge');
+    expect(textRes.body).toContain('nanobazaar_jobs_by_status{status="requested"} 1');
+    expect(textRes.body).toContain(
+      '# TYPE nanobazaar_http_request_duration_seconds histogram'
+    );
+    expect(textRes.body).toMatch(
+      /nanobazaar_http_request_duration_seconds_bucket\{le="\+Inf",method="POST",route="\/v1\/jobs",status="201"\} \d+/
+    );
+    expect(textRes.body).toMatch(
+      /nanobazaar_db_query_duration_seconds_count\{kind="insert"\} \d+/
+    );
+
+    const forced = await server.inject({
+      method: 'GET',
+      url: '/metrics?format=prometheus'
+    });
+    expect(forced.headers['content-type']).toContain('text/plain');
+    const invalid = await server.inject({ method: 'GET', url: '/metrics?format=xml' });
+    expect(invalid.statusCode).toBe(400);
+  });
+
+  it('traces requests and their queries under the caller trace', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'relay-trace-'));
+    const tracePath = join(dir, 'spans.jsonl');
+    const tracing = initTracing({
+      serviceName: 'relay-test',
+      exporter: new FileSpanExporter(tracePath)
+    });
+    try {
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+      const callerSpanId = '00f067aa0ba902b7';
+      const res = await server.inject({
+        method: 'GET',
+        url: '/metrics',
+        headers: { traceparent: `00-${traceId}-${callerSpanId}-01` }
+      });
+      expect(res.statusCode).toBe(200);
+
+      await tracing?.shutdown();
+      const records = (await readFile(tracePath, 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      const request = records.find((record) => record.name === 'GET /metrics');
+      expect(request).toMatchObject({
+        service: 'relay-test',
+        kind: 1,
+        trace_id: traceId,
+        parent_span_id: callerSpanId,
+        attributes: {
+          'http.route': '/metrics',
+          'http.response.status_code': 200
+        }
+      });
+      const queries = records.filter((record) => record.name === 'db.select');
+      expect(queries.length).toBeGreaterThanOrEqual(1);
+      for (const query of queries) {
+        expect(query.trace_id).toBe(traceId);
+        expect(query.parent_span_id).toBe(request.span_id);
+        expect(query.attributes['db.query.text']).toContain('from "jobs"');
+      }
+    } finally {
+      await tracing?.shutdown();
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('lets admins search, force jobs, take down offers and ban pubkeys', async () => {
+    const admin = createKeypair();
+    const operated = await buildServer(process.env.DATABASE_URL, {
+      adminPubkeys: [admin.publicKey]
+    });
+    await operated.ready();
+
+    try {
+      const inject = (
+        method: string,
+        url: string,
+        keypair: ReturnType<typeof createKeypair>,
+        body?: unknown
+      ) => signedInject({ method, url, body, keypair, target: operated });
+
+      const offerRes = await inject('POST', '/v1/offers', seller, {
+        title: 'Operated',
+        description: 'Admin checks',
+        tags: ['admin'],
+        pricing_mode: 'fixed',
+        fixed_price_raw: '1000'
+      });
+      expect(offerRes.statusCode).toBe(201);
+      const offer = JSON.parse(offerRes.body).offer;
+      const jobRes = await inject('POST', '/v1/jobs', buyer, {
+        offer_id: offer.offer_id,
+        request_payload: {}
+      });
+      const job = JSON.parse(jobRes.body).job;
+
+      const denied = await inject('GET', '/admin/v1/jobs', seller);
+      expect(denied.statusCode).toBe(403);
+      expect(JSON.parse(denied.body).error.code).toBe('forbidden');
+
+      const search = await inject(
+        'GET',
+        `/admin/v1/jobs?seller_pubkey=${seller.publicKey}&status=requested`,
+        admin
+      );
+      expect(search.statusCode).toBe(200);
+      expect(JSON.parse(search.body)).toMatchObject({
+        jobs: [{ job_id: job.job_id }],
+        total: 1
+      });
+
+      const missingReason = await inject(
+        'POST',
+        `/admin/v1/jobs/${job.job_id}/transition`,
+        admin,
+        { status: 'failed' }
+      );
+      expect(missingReason.statusCode).toBe(400);
+      const forced = await inject(
+        'POST',
+        `/admin/v1/jobs/${job.job_id}/transition`,
+        admin,
+        { status: 'failed', reason: 'Seller unresponsive' }
+      );
+      expect(forced.statusCode).toBe(200);
+      const forcedBody = JSON.parse(forced.body);
+      expect(forcedBody.job).toMatchObject({
+        status: 'failed',
+        error: { code: 'operator_intervention' }
+      });
+      expect(forcedBody.action).toMatchObject({
+        admin_pubkey: admin.publicKey,
+        action: 'job.transition',
+        target_id: job.job_id,
+        reason: 'Seller unresponsive',
+        details: { from_status: 'requested', to_status: 'failed' }
+      });
+      const events = await inject('GET', '/v1/events', buyer);
+      expect(
+        JSON.parse(events.body).events.map((event: { type: string }) => event.type)
+      ).toContain('job.failed');
+      const again = await inject(
+        'POST',
+        `/admin/v1/jobs/${job.job_id}/transition`,
+        admin,
+        { status: 'canceled', reason: 'Twice' }
+      );
+      expect(again.statusCode).toBe(409);
+
+      const takedown = await inject(
+        'POST',
+        `/admin/v1/offers/${offer.offer_id}/takedown`,
+        admin,
+        { reason: 'Spam' }
+      );
+      expect(takedown.statusCode).toBe(200);
+      expect(JSON.parse(takedown.body).offer).toMatchObject({ active: false });
+      expect(JSON.parse(takedown.body).offer.taken_down_at).not.toBeNull();
+      const reactivate = await inject(
+        'PATCH',
+        `/v1/offers/${offer.offer_id}`,
+        seller,
+        { active: true }
+      );
+      expect(reactivate.statusCode).toBe(409);
+      const takenDown = await inject('GET', '/admin/v1/offers?state=taken_down', admin);
+      expect(JSON.parse(takenDown.body).offers).toHaveLength(1);
+      const restored = await inject(
+        'POST',
+        `/admin/v1/offers/${offer.offer_id}/restore`,
+        admin,
+        { reason: 'Appeal accepted' }
+      );
+      expect(JSON.parse(restored.body).offer).toMatchObject({
+        active: false,
+        taken_down_at: null
+      });
+      expect(
+        (await inject('PATCH', `/v1/offers/${offer.offer_id}`, seller, { active: true }))
+          .statusCode
+      ).toBe(200);
+
+      const selfBan = await inject('POST', '/admin/v1/bans', admin, {
+        pubkey: admin.publicKey,
+        reason: 'Oops'
+      });
+      expect(selfBan.statusCode).toBe(400);
+      const ban = await inject('POST', '/admin/v1/bans', admin, {
+        pubkey: seller.publicKey,
+        reason: 'Spamming offers'
+      });
+      expect(ban.statusCode).toBe(201);
+      expect(JSON.parse(ban.body).action.details).toEqual({
+        deactivated_offer_ids: [offer.offer_id]
+      });
+      const bannedRes = await inject('GET', '/v1/jobs', seller);
+      expect(bannedRes.statusCode).toBe(403);
+      expect(JSON.parse(bannedRes.body).error.code).toBe('auth.banned');
+      const bans = await inject('GET', '/admin/v1/bans', admin);
+      expect(JSON.parse(bans.body).bans).toMatchObject([
+        { pubkey: seller.publicKey, reason: 'Spamming offers' }
+      ]);
+
+      const lifted = await inject(
+        'POST',
+        `/admin/v1/bans/${seller.publicKey}/lift`,
+        admin,
+        { reason: 'Cleaned up' }
+      );
+      expect(lifted.statusCode).toBe(200);
+      expect((await inject('GET', '/v1/jobs', seller)).statusCode).toBe(200);
+
+      const actions = await inject(
+        'GET',
+        `/admin/v1/actions?target_id=${offer.offer_id}`,
+        admin
+      );
+      expect(
+        JSON.parse(actions.body).actions.map((action: { action: string }) => action.action)
+      ).toEqual(['offer.restore', 'offer.takedown']);
+    } finally {
+      await operated.close();
+    }
   });
 });
@@ -53,6 +53,12 @@ export const authHeaders = ({
 export const truncateAll = async (server: FastifyInstance) => {
   await server.db.deleteFrom('idempotency_keys').execute();
   await server.db.deleteFrom('nonces').execute();
+  await server.db.deleteFrom('webhook_deliveries').execute();
+  await server.db.deleteFrom('webhooks').execute();
+  await server.db.deleteFrom('job_events').execute();
   await server.db.deleteFrom('jobs').execute();
+  await server.db.deleteFrom('offer_versions').execute();
   await server.db.deleteFrom('offers').execute();
+  await server.db.deleteFrom('accounts').execute();
+  await server.db.deleteFrom('admin_actions').execute();
 };
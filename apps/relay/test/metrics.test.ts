@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createMetrics } from '../src/metrics.js';
+
+describe('metrics registry', () => {
+  it('keeps the JSON counter keys and renders Prometheus text', () => {
+    const metrics = createMetrics({ buckets: [0.1, 1] });
+    metrics.inc('job.transition', { to: 'quoted', from: 'requested' });
+    metrics.inc('job.transition', { from: 'requested', to: 'quoted' });
+    metrics.set('jobs.by_status', { status: 'running' }, 3);
+    metrics.observe('db.query_duration_seconds', { kind: 'select' }, 0.05);
+    metrics.observe('db.query_duration_seconds', { kind: 'select' }, 2);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.counters['job.transition{from=requested,to=quoted}']).toBe(2);
+    expect(snapshot.gauges['jobs.by_status{status=running}']).toBe(3);
+    expect(snapshot.histograms['db.query_duration_seconds{kind=select}']).toEqual({
+      count: 2,
+      sum: 2.05,
+      buckets: { '0.1': 1, '1': 1, '+Inf': 2 }
+    });
+
+    expect(metrics.toPrometheus().split('\n')).toEqual([
+      '# TYPE nanobazaar_db_query_duration_seconds histogram',
+      'nanobazaar_db_query_duration_seconds_bucket{kind="select",le="0.1"} 1',
+      'nanobazaar_db_query_duration_seconds_bucket{kind="select",le="1"} 1',
+      'nanobazaar_db_query_duration_seconds_bucket{kind="select",le="+Inf"} 2',
+      'nanobazaar_db_query_duration_seconds_sum{kind="select"} 2.05',
+      'nanobazaar_db_query_duration_seconds_count{kind="select"} 2',
+      '# TYPE nanobazaar_job_transition_total counter',
+      'nanobazaar_job_transition_total{from="requested",to="quoted"} 2',
+      '# TYPE nanobazaar_jobs_by_status gauge',
+      'nanobazaar_jobs_by_status{status="running"} 3',
+      ''
+    ]);
+  });
+
+  it('escapes label values and rejects type changes', () => {
+    const metrics = createMetrics();
+    metrics.inc('auth.failure', { code: 'a"b\\c\nd' });
+    expect(metrics.toPrometheus()).toContain(
+      'nanobazaar_auth_failure_total{code="a\\"b\\\\c\\nd"} 1'
+    );
+    expect(() => metrics.set('auth.failure', {}, 1)).toThrow();
+  });
+});
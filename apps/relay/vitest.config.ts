@@ -2,6 +2,13 @@ import { defineConfig } from 'vitest/config';
 
 export default defineConfig({
   test: {
+    // The suite shares one client IP and two keypairs, which would otherwise
+    // exhaust the per-minute buckets as it grows.
+    env: {
+      RELAY_RATE_LIMIT_ENABLED: 'false',
+      // The webhook test receiver listens on loopback.
+      RELAY_WEBHOOK_ALLOWED_HOSTS: '127.0.0.1'
+    },
     sequence: {
       concurrent: false
     }
@@ -1,5 +1,9 @@
 import { readFile } from 'node:fs/promises';
-import { createRelayClient, type OfferCreate } from '@nanobazaar/relay-client';
+import {
+  createRelayClient,
+  type DeclineReason,
+  type OfferCreate
+} from '@nanobazaar/relay-client';
 
 const parseArgs = (argv: string[]) => {
   const args: Record<string, string | boolean> = {};
@@ -66,7 +70,7 @@ const printResult = (result: { ok: boolean; data?: unknown; error?: unknown }) =
 };
 
 const printUsage = () => {
-  console.log(`NanoBazaar seller CLI\n\nCommands:\n  register-offer --title <title> --description <desc> --pricing-mode <fixed|quote> [--tags a,b] [--fixed-price-raw 123] [--active true]\n  register-offer --offer-file <path>\n  list-jobs [--status requested,accepted] [--limit 20] [--offset 0] [--updated-after <ts>]\n  quote-job --job-id <id> --quote-amount-raw <raw> --quote-invoice-address <addr> [--quote-expires-at <ts>]\n  lock-job --job-id <id>\n  deliver-job --job-id <id> (--result-url <url> | --error <json> | --error-file <path>)\n`);
+  console.log(`NanoBazaar seller CLI\n\nCommands:\n  register-offer --title <title> --description <desc> --pricing-mode <fixed|quote> [--tags a,b] [--fixed-price-raw 123] [--active true]\n  register-offer --offer-file <path>\n  list-jobs [--status requested,accepted] [--limit 20] [--offset 0 | --cursor <next_cursor>] [--updated-after <ts>]\n  quote-job --job-id <id> --quote-amount-raw <raw> --quote-invoice-address <addr> [--quote-expires-at <ts>]\n  lock-job --job-id <id> [--lock-token <token>]\n  unlock-job --job-id <id> --lock-token <token>\n  report-progress --job-id <id> --lock-token <token> [--percent 0-100] [--stage <label>] [--message <text>]\n  decline-job --job-id <id> --reason <unsupported_request|invalid_request|capacity|policy|other> [--message <text>]\n  deliver-job --job-id <id> --lock-token <token> (--result-url <url> | --error <json> | --error-file <path>)\n`);
 };
 
 const main = async () => {
@@ -137,6 +141,7 @@ const main = async () => {
         role: 'seller',
         limit: parseNumber(args.limit),
         offset: parseNumber(args.offset),
+        cursor: typeof args.cursor === 'string' ? args.cursor : undefined,
         updated_after:
           typeof args['updated-after'] === 'string' ? args['updated-after'] : undefined
       });
@@ -176,16 +181,76 @@ const main = async () => {
         console.error('Missing --job-id');
         process.exit(1);
       }
-      const result = await client.lockJob(jobId);
+      const result = await client.lockJob(jobId, {
+        lock_token: parseNumber(args['lock-token'])
+      });
+      printResult(result);
+      return;
+    }
+    case 'unlock-job': {
+      const jobId = args['job-id'];
+      const lockToken = parseNumber(args['lock-token']);
+      if (typeof jobId !== 'string') {
+        console.error('Missing --job-id');
+        process.exit(1);
+      }
+      if (lockToken === undefined) {
+        console.error('Missing --lock-token');
+        process.exit(1);
+      }
+      const result = await client.unlockJob(jobId, { lock_token: lockToken });
+      printResult(result);
+      return;
+    }
+    case 'report-progress': {
+      const jobId = args['job-id'];
+      const lockToken = parseNumber(args['lock-token']);
+      if (typeof jobId !== 'string') {
+        console.error('Missing --job-id');
+        process.exit(1);
+      }
+      if (lockToken === undefined) {
+        console.error('Missing --lock-token');
+        process.exit(1);
+      }
+      const result = await client.reportProgress(jobId, {
+        lock_token: lockToken,
+        percent: parseNumber(args.percent),
+        stage: typeof args.stage === 'string' ? args.stage : undefined,
+        message: typeof args.message === 'string' ? args.message : undefined
+      });
+      printResult(result);
+      return;
+    }
+    case 'decline-job': {
+      const jobId = args['job-id'];
+      const reason = args.reason;
+      if (typeof jobId !== 'string') {
+        console.error('Missing --job-id');
+        process.exit(1);
+      }
+      if (typeof reason !== 'string') {
+        console.error('Missing --reason');
+        process.exit(1);
+      }
+      const result = await client.declineJob(jobId, {
+        reason: reason as DeclineReason,
+        message: typeof args.message === 'string' ? args.message : undefined
+      });
       printResult(result);
       return;
     }
     case 'deliver-job': {
       const jobId = args['job-id'];
+      const lockToken = parseNumber(args['lock-token']);
       if (typeof jobId !== 'string') {
         console.error('Missing --job-id');
         process.exit(1);
       }
+      if (lockToken === undefined) {
+        console.error('Missing --lock-token');
+        process.exit(1);
+      }
       const resultUrl = typeof args['result-url'] === 'string' ? args['result-url'] : undefined;
       const errorPayload = await readJsonArg(args.error, args['error-file']);
       const hasResult = resultUrl !== undefined && resultUrl !== null;
@@ -195,6 +260,7 @@ const main = async () => {
         process.exit(1);
       }
       const result = await client.deliverJob(jobId, {
+        lock_token: lockToken,
         result_url: hasResult ? resultUrl : null,
         error: hasError ? errorPayload : null
       });
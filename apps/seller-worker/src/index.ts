@@ -2,10 +2,13 @@ import { randomBytes } from 'node:crypto';
 import { setTimeout as delay } from 'node:timers/promises';
 import { fetch } from 'undici';
 import {
+  initTracing,
+  injectTraceHeaders,
   publicKeyFromPrivateKeyHex,
-  signCanonical
+  signCanonical,
+  withSpan
 } from '@nanobazaar/shared';
-import type { Job } from './types.js';
+import type { Job, ProgressUpdate, ReportProgress } from './types.js';
 import {
   createCharge,
   createPaymentProcessor,
@@ -43,6 +46,9 @@ const chargeTimeoutMs = parseEnvInt(
   process.env.CHARGE_TIMEOUT_MS,
   quoteExpiresMs
 );
+// Expected time from quote to delivery. Jobs whose deliver_by leaves less
+// than this are not quoted; the relay fails them once the deadline passes.
+const estimatedDurationMs = parseEnvInt(process.env.ESTIMATED_DURATION_MS, 0);
 const resultUrlTemplate =
   process.env.RESULT_URL_TEMPLATE ?? 'https://example.com/jobs/{job_id}';
 
@@ -56,6 +62,17 @@ if (!sellerPrivkey) {
 
 const sellerPubkey = publicKeyFromPrivateKeyHex(sellerPrivkey);
 
+initTracing({ serviceName: 'nanobazaar-seller-worker' });
+
+// One span per job step; apiRequest carries the active span to the relay.
+const jobSpan = <T>(step: string, jobId: string, fn: () => Promise<T>) =>
+  withSpan(
+    'nanobazaar-seller-worker',
+    `seller.${step}`,
+    { 'nanobazaar.job_id': jobId },
+    fn
+  );
+
 let processor: ReturnType<typeof createPaymentProcessor> | null = null;
 const jobToChargeId = new Map<string, string>();
 const chargeIdToJobId = new Map<string, string>();
@@ -101,6 +118,7 @@ const apiRequest = async <T>(
   if (payload) {
     headers['content-type'] = 'application/json';
   }
+  injectTraceHeaders(headers);
 
   try {
     const response = await fetch(`${relayUrl}${path}`, {
@@ -124,8 +142,48 @@ const registerOffer = async () => {
     tags: ['web_extract'],
     pricing_mode: 'quote',
     fixed_price_raw: null,
+    // Lets the relay reject payloads executeJob cannot use before anyone pays.
+    request_schema: {
+      type: 'object',
+      properties: { url: { type: 'string', format: 'uri' } },
+      required: ['url']
+    },
     active: true
   };
+
+  // Reuse the offer from a previous run instead of registering a duplicate.
+  // Search lists active offers by default, so also look through inactive ones;
+  // the PATCH below reactivates the match. Taken-down offers cannot be.
+  let match: { offer_id: string } | undefined;
+  for (const active of [true, false]) {
+    const existing = await apiRequest<{
+      offers: Array<{
+        offer_id: string;
+        title: string;
+        taken_down_at: string | null;
+      }>;
+    }>(
+      'GET',
+      `/v1/offers?seller_pubkey=${sellerPubkey}&tags=${offerPayload.tags.join(',')}&active=${active}&limit=100`
+    );
+    match = existing.data?.offers.find(
+      (offer) => offer.title === offerPayload.title && !offer.taken_down_at
+    );
+    if (match) break;
+  }
+  if (match) {
+    const response = await apiRequest<{ offer: { offer_id: string } }>(
+      'PATCH',
+      `/v1/offers/${match.offer_id}`,
+      offerPayload
+    );
+    if (response.status !== 200) {
+      console.error('Failed to update offer', response.status, response.data);
+      return null;
+    }
+    return response.data?.offer.offer_id ?? null;
+  }
+
   const response = await apiRequest<{ offer: { offer_id: string } }>(
     'POST',
     '/v1/offers',
@@ -141,25 +199,27 @@ const registerOffer = async () => {
 type JobListResponse = {
   jobs: Job[];
   limit: number;
-  offset: number;
-  total: number;
+  next_cursor: string | null;
 };
 
 const listJobs = async (options: {
   updatedAfter?: string | null;
   statuses?: string;
   limit?: number;
-  offset?: number;
+  cursor?: string | null;
 }) => {
   const params = new URLSearchParams({
     role: 'seller',
     status: options.statuses ?? 'requested,accepted,running',
     limit: String(options.limit ?? jobPageSize),
-    offset: String(options.offset ?? 0)
+    include_total: 'false'
   });
   if (options.updatedAfter) {
     params.set('updated_after', options.updatedAfter);
   }
+  if (options.cursor) {
+    params.set('cursor', options.cursor);
+  }
   const path = `/v1/jobs?${params.toString()}`;
   return apiRequest<JobListResponse>('GET', path);
 };
@@ -223,10 +283,17 @@ const createChargeForJob = async (jobId: string, amountRaw: string) => {
   return charge;
 };
 
-const createQuote = async (jobId: string) => {
-  const charge = await createChargeForJob(jobId, quoteAmountRaw);
+const createQuote = async (job: Job) => {
+  const jobId = job.job_id;
+  // The relay rejects quotes on fixed offers that differ from the agreed price.
+  const amountRaw =
+    job.offer_snapshot?.pricing_mode === 'fixed' &&
+    job.offer_snapshot.fixed_price_raw
+      ? job.offer_snapshot.fixed_price_raw
+      : quoteAmountRaw;
+  const charge = await createChargeForJob(jobId, amountRaw);
   const payload = {
-    quote_amount_raw: charge.amount_raw ?? quoteAmountRaw,
+    quote_amount_raw: charge.amount_raw ?? amountRaw,
     quote_invoice_address: charge.address,
     quote_expires_at: new Date(Date.now() + quoteExpiresMs).toISOString(),
     payment_charge_id: charge.chargeId,
@@ -259,16 +326,42 @@ const handleChargeCompleted = (charge: { id: string }) => {
   }
 };
 
-const lockJob = async (jobId: string) =>
-  apiRequest<{ job: Job }>('POST', `/v1/jobs/${jobId}/lock`, {});
+const declineJob = async (
+  jobId: string,
+  input: { reason: 'capacity'; message: string }
+) => apiRequest<{ job: Job }>('POST', `/v1/jobs/${jobId}/decline`, input);
+
+const lockJob = async (jobId: string, lockToken?: number) =>
+  apiRequest<{ job: Job }>(
+    'POST',
+    `/v1/jobs/${jobId}/lock`,
+    lockToken === undefined ? {} : { lock_token: lockToken }
+  );
 
 type DeliveryPayload = {
   result_url: string | null;
   error: unknown | null;
 };
 
-const deliverJob = async (jobId: string, delivery: DeliveryPayload) =>
-  apiRequest<{ job: Job }>('POST', `/v1/jobs/${jobId}/deliver`, delivery);
+const deliverJob = async (
+  jobId: string,
+  lockToken: number,
+  delivery: DeliveryPayload
+) =>
+  apiRequest<{ job: Job }>('POST', `/v1/jobs/${jobId}/deliver`, {
+    lock_token: lockToken,
+    ...delivery
+  });
+
+const reportJobProgress = async (
+  jobId: string,
+  lockToken: number,
+  update: ProgressUpdate
+) =>
+  apiRequest<{ job: Job }>('POST', `/v1/jobs/${jobId}/progress`, {
+    lock_token: lockToken,
+    ...update
+  });
 
 const verifyPayment = async (job: Job) => {
   if (!job.quote_invoice_address || !job.quote_amount_raw) {
@@ -294,7 +387,7 @@ const verifyPayment = async (job: Job) => {
   }
 };
 
-const executeJob = (payload: unknown) => {
+const executeJob = async (payload: unknown, reportProgress: ReportProgress) => {
   const url =
     typeof payload === 'object' &&
     payload !== null &&
@@ -302,6 +395,7 @@ const executeJob = (payload: unknown) => {
     typeof (payload as { url: unknown }).url === 'string'
       ? (payload as { url: string }).url
       : 'unknown';
+  await reportProgress({ percent: 50, stage: 'extract', message: url });
   return {
     markdown: `# Web Extract\n\nSource: ${url}\n\n(Stubbed content)`
   };
@@ -312,6 +406,9 @@ const inFlightJobs = new Set<string>();
 const pendingDeliveries = new Map<string, DeliveryPayload>();
 const lockHeartbeats = new Map<string, NodeJS.Timeout>();
 const lockLostJobs = new Set<string>();
+// Fencing token from our latest lock; the relay rejects deliveries and
+// renewals carrying an older one.
+const lockTokens = new Map<string, number>();
 let polling = false;
 let lastUpdatedAt: string | null = null;
 let initialSyncDone = false;
@@ -342,6 +439,7 @@ const clearJobState = (jobId: string) => {
   inFlightJobs.delete(jobId);
   pendingDeliveries.delete(jobId);
   lockLostJobs.delete(jobId);
+  lockTokens.delete(jobId);
   paidJobs.delete(jobId);
   stopLockHeartbeat(jobId);
 };
@@ -355,7 +453,7 @@ const updateTrackedJob = (job: Job) => {
 };
 
 const renewLock = async (jobId: string) => {
-  const response = await lockJob(jobId);
+  const response = await lockJob(jobId, lockTokens.get(jobId));
   if (response.status === 200) {
     if (response.data?.job) {
       updateTrackedJob(response.data.job);
@@ -393,12 +491,12 @@ const getCursorTimestamp = () => {
 
 const syncTrackedJobs = async () => {
   const cursor = '1970-01-01T00:00:00.000Z';
-  let offset = 0;
+  let pageCursor: string | null = null;
   let maxUpdated: string | null = lastUpdatedAt;
   while (true) {
     const response = await listJobs({
       updatedAfter: cursor,
-      offset,
+      cursor: pageCursor,
       limit: jobPageSize
     });
     if (response.status !== 200 || !response.data) {
@@ -409,10 +507,8 @@ const syncTrackedJobs = async () => {
       updateTrackedJob(job);
       maxUpdated = maxTimestamp(maxUpdated, job.updated_at);
     }
-    const pageSize = response.data.jobs.length;
-    if (pageSize < response.data.limit) break;
-    offset += pageSize;
-    if (offset >= response.data.total) break;
+    pageCursor = response.data.next_cursor;
+    if (!pageCursor) break;
   }
   lastUpdatedAt = maxUpdated;
   initialSyncDone = true;
@@ -423,13 +519,13 @@ const fetchUpdates = async () => {
   const cursor =
     getCursorTimestamp() ??
     (initialSyncDone ? null : '1970-01-01T00:00:00.000Z');
-  let offset = 0;
+  let pageCursor: string | null = null;
   let maxUpdated: string | null = lastUpdatedAt;
   let hadUpdates = false;
   while (true) {
     const response = await listJobs({
       updatedAfter: cursor ?? undefined,
-      offset,
+      cursor: pageCursor,
       limit: jobPageSize
     });
     if (response.status !== 200 || !response.data) {
@@ -442,10 +538,10 @@ const fetchUpdates = async () => {
       updateTrackedJob(job);
       maxUpdated = maxTimestamp(maxUpdated, job.updated_at);
     }
-    const pageSize = response.data.jobs.length;
-    if (pageSize < response.data.limit) break;
-    offset += pageSize;
-    if (offset >= response.data.total) break;
+    // The cursor pins each page to (updated_at, job_id), so jobs updated while
+    // paging reappear later instead of shifting rows past an offset.
+    pageCursor = response.data.next_cursor;
+    if (!pageCursor) break;
   }
   if (maxUpdated) {
     lastUpdatedAt = maxUpdated;
@@ -453,13 +549,18 @@ const fetchUpdates = async () => {
   return { ok: true, hadUpdates };
 };
 
-const getOrCreateDelivery = async (job: Job): Promise<DeliveryPayload> => {
+const getOrCreateDelivery = async (
+  job: Job,
+  reportProgress: ReportProgress
+): Promise<DeliveryPayload> => {
   const existing = pendingDeliveries.get(job.job_id);
   if (existing) return existing;
 
   let delivery: DeliveryPayload;
   try {
-    const result = await Promise.resolve(executeJob(job.request_payload));
+    const result = await jobSpan('execute', job.job_id, () =>
+      Promise.resolve(executeJob(job.request_payload, reportProgress))
+    );
     if (result === undefined) {
       delivery = {
         result_url: null,
@@ -480,18 +581,25 @@ const getOrCreateDelivery = async (job: Job): Promise<DeliveryPayload> => {
   return delivery;
 };
 
-const deliverWithLock = async (job: Job) => {
+const deliverWithLock = async (job: Job, reportProgress: ReportProgress) => {
   const jobId = job.job_id;
   if (lockLostJobs.has(jobId)) {
     console.warn('Skipping delivery, lock lost', jobId);
     return;
   }
-  const delivery = await getOrCreateDelivery(job);
+  const delivery = await getOrCreateDelivery(job, reportProgress);
   if (lockLostJobs.has(jobId)) {
     console.warn('Skipping delivery after lock loss', jobId);
     return;
   }
-  const deliverRes = await deliverJob(jobId, delivery);
+  const lockToken = lockTokens.get(jobId);
+  if (lockToken === undefined) {
+    console.warn('Skipping delivery, no lock token', jobId);
+    return;
+  }
+  const deliverRes = await jobSpan('deliver', jobId, () =>
+    deliverJob(jobId, lockToken, delivery)
+  );
   if (deliverRes.status === 200 && deliverRes.data?.job) {
     pendingDeliveries.delete(jobId);
     updateTrackedJob(deliverRes.data.job);
@@ -504,12 +612,25 @@ const deliverWithLock = async (job: Job) => {
   console.error('Delivery failed', jobId, deliverRes.status, deliverRes.data);
 };
 
+// Progress goes out under the current lock token and is dropped once the lock
+// is lost, so a fenced-off run cannot overwrite the new holder's progress.
+const createProgressReporter =
+  (jobId: string): ReportProgress =>
+  async (update) => {
+    const lockToken = lockTokens.get(jobId);
+    if (lockToken === undefined || lockLostJobs.has(jobId)) return;
+    const response = await reportJobProgress(jobId, lockToken, update);
+    if (response.status !== 200) {
+      console.warn('Progress report failed', jobId, response.status, response.data);
+    }
+  };
+
 const runJobWithLock = async (job: Job) => {
   const jobId = job.job_id;
   if (lockLostJobs.has(jobId)) return;
   startLockHeartbeat(jobId);
   try {
-    await deliverWithLock(job);
+    await deliverWithLock(job, createProgressReporter(jobId));
   } finally {
     stopLockHeartbeat(jobId);
   }
@@ -525,9 +646,30 @@ const withJobGuard = async (jobId: string, action: () => Promise<void>) => {
   }
 };
 
+const canMeetDeadline = (job: Job) =>
+  !job.deliver_by || Date.parse(job.deliver_by) - Date.now() >= estimatedDurationMs;
+
 const handleRequestedJob = async (job: Job) =>
   withJobGuard(job.job_id, async () => {
-    const quoteRes = await createQuote(job.job_id);
+    // Declining tells the buyer now instead of leaving the job to expire.
+    if (!canMeetDeadline(job)) {
+      const declineRes = await jobSpan('decline', job.job_id, () =>
+        declineJob(job.job_id, {
+          reason: 'capacity',
+          message: `Cannot finish before deliver_by (${job.deliver_by})`
+        })
+      );
+      if (declineRes.status === 200) {
+        console.log('Declined job with unreachable deadline', job.job_id, job.deliver_by);
+      }
+      if (declineRes.status === 200 || declineRes.status === 409) {
+        clearJobState(job.job_id);
+        return;
+      }
+      console.error('Decline failed', job.job_id, declineRes.status, declineRes.data);
+      return;
+    }
+    const quoteRes = await jobSpan('quote', job.job_id, () => createQuote(job));
     if (quoteRes.status === 200 || quoteRes.status === 409) {
       clearJobState(job.job_id);
       return;
@@ -537,9 +679,9 @@ const handleRequestedJob = async (job: Job) =>
 
 const handleAcceptedJob = async (job: Job) =>
   withJobGuard(job.job_id, async () => {
-    const verified = await verifyPayment(job);
+    const verified = await jobSpan('verify', job.job_id, () => verifyPayment(job));
     if (!verified) return;
-    const lockRes = await lockJob(job.job_id);
+    const lockRes = await jobSpan('lock', job.job_id, () => lockJob(job.job_id));
     if (lockRes.status !== 200 || !lockRes.data?.job) {
       if (lockRes.status !== 409) {
         console.error('Lock failed', job.job_id, lockRes.status, lockRes.data);
@@ -547,6 +689,7 @@ const handleAcceptedJob = async (job: Job) =>
       return;
     }
     const lockedJob = lockRes.data.job;
+    lockTokens.set(lockedJob.job_id, lockedJob.lock_token);
     updateTrackedJob(lockedJob);
     await runJobWithLock(lockedJob);
   });
@@ -556,7 +699,7 @@ const handleRunningJob = async (job: Job) =>
     if (job.lock_owner && job.lock_owner !== sellerPubkey) {
       return;
     }
-    const lockRes = await lockJob(job.job_id);
+    const lockRes = await jobSpan('lock', job.job_id, () => lockJob(job.job_id));
     if (lockRes.status !== 200 || !lockRes.data?.job) {
       if (lockRes.status !== 409) {
         console.error('Lock renewal failed', job.job_id, lockRes.status, lockRes.data);
@@ -564,6 +707,7 @@ const handleRunningJob = async (job: Job) =>
       return;
     }
     const lockedJob = lockRes.data.job;
+    lockTokens.set(lockedJob.job_id, lockedJob.lock_token);
     updateTrackedJob(lockedJob);
     await runJobWithLock(lockedJob);
   });
@@ -1,16 +1,46 @@
+import type { PaymentProof } from '@nanobazaar/shared';
+
+export type OfferSnapshot = {
+  version: number;
+  title: string;
+  description: string;
+  tags: string[];
+  pricing_mode: 'fixed' | 'quote';
+  fixed_price_raw: string | null;
+  request_schema?: Record<string, unknown> | null;
+};
+
 export type Job = {
   job_id: string;
+  offer_version: number | null;
+  offer_snapshot: OfferSnapshot | null;
   status: string;
   request_payload: unknown;
   quote_amount_raw: string | null;
   quote_invoice_address: string | null;
   quote_expires_at: string | null;
+  deliver_by: string | null;
+  client_reference: string | null;
   payment_tx_hash: string | null;
   payment_charge_id: string | null;
   payment_charge_address: string | null;
   payment_provider: string | null;
   payment_sweep_tx_hash: string | null;
+  payment_verified_at: string | null;
+  payment_proof: PaymentProof | null;
   lock_owner: string | null;
   lock_expires_at: string | null;
+  lock_token: number;
+  attempts: number;
+  max_attempts: number;
   updated_at: string;
 };
+
+export type ProgressUpdate = {
+  percent?: number | null;
+  stage?: string | null;
+  message?: string | null;
+};
+
+// Handed to job handlers; failures are logged, never thrown.
+export type ReportProgress = (update: ProgressUpdate) => Promise<void>;
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { createServer } from 'node:http';
-import { NanoRpcClient } from '../src/nano-rpc.js';
+import { NanoRpcClient } from '@nanobazaar/shared';
 
 const startServer = async (
   handler: (payload: Record<string, unknown>) => { status: number; body: Record<string, unknown> }
@@ -2,10 +2,10 @@ import { describe, expect, it, vi } from 'vitest';
 import { mkdtemp, rm } from 'node:fs/promises';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
+import { createBlock, deriveAddress, derivePublicKey, deriveSecretKey } from 'nanocurrency';
 import { NanoWallet } from '../src/wallet.js';
-import { PaymentVerifier } from '../src/payment-verifier.js';
+import { PaymentVerifier, type NanoBlockInfo } from '@nanobazaar/shared';
 import type { Job } from '../src/types.js';
-import type { NanoBlockInfo } from '../src/nano-rpc.js';
 
 const SEED = 'fedcba9876543210fedcba9876543210fedcba9876543210fedcba9876543210';
 
@@ -33,6 +33,9 @@ const createJob = (overrides: Partial<Job> = {}): Job => ({
   payment_tx_hash: null,
   lock_owner: null,
   lock_expires_at: null,
+  lock_token: 0,
+  attempts: 0,
+  max_attempts: 3,
   updated_at: new Date().toISOString(),
   ...overrides
 });
@@ -171,4 +174,58 @@ describe('PaymentVerifier', () => {
       await rm(dir, { recursive: true, force: true });
     }
   });
+
+  it('verifies signed payment proofs without the RPC', async () => {
+    const { dir, wallet } = await createTempWallet();
+    try {
+      const payerKey = deriveSecretKey(SEED, 0);
+      const representative = deriveAddress(derivePublicKey(payerKey), { useNanoPrefix: true });
+      const invoice = deriveAddress(derivePublicKey(deriveSecretKey(SEED, 1)), {
+        useNanoPrefix: true
+      });
+      const previous = createBlock(payerKey, {
+        work: null,
+        previous: null,
+        representative,
+        balance: '5000',
+        link: 'B'.repeat(64)
+      });
+      const send = createBlock(payerKey, {
+        work: null,
+        previous: previous.hash,
+        representative,
+        balance: '3800',
+        link: invoice
+      });
+      const rpc = {
+        getBlockInfo: vi.fn(),
+        getReceivable: vi.fn()
+      };
+      const verifier = new PaymentVerifier({ wallet, rpc: rpc as any, minConfirmations: 1 });
+      const proof = { block: send.block, previous_block: previous.block };
+
+      const result = await verifier.verifyProof(
+        createJob({ quote_invoice_address: invoice }),
+        proof
+      );
+      expect(result).toEqual({
+        verified: true,
+        details: {
+          tx_hash: send.hash.toLowerCase(),
+          amount_raw: '1200',
+          destination: invoice,
+          confirmed: null
+        }
+      });
+      expect(rpc.getBlockInfo).not.toHaveBeenCalled();
+
+      const replay = await verifier.verifyProof(
+        createJob({ job_id: 'job-2', quote_invoice_address: invoice }),
+        proof
+      );
+      expect(replay).toEqual({ verified: false, reason: 'payment.hash_reused' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
 });
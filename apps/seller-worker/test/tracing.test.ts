@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createRelayClient } from '@nanobazaar/relay-client';
+import {
+  FileSpanExporter,
+  generateKeypairHex,
+  initTracing,
+  injectTraceHeaders,
+  withSpan
+} from '@nanobazaar/shared';
+
+describe('tracing', () => {
+  it('propagates traceparent from active spans and writes them to a file', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'nano-trace-'));
+    const tracePath = join(dir, 'spans.jsonl');
+    const tracing = initTracing({
+      serviceName: 'test-worker',
+      exporter: new FileSpanExporter(tracePath)
+    });
+    try {
+      expect(injectTraceHeaders({})).toEqual({});
+
+      const sent: Array<Record<string, string>> = [];
+      const client = createRelayClient({
+        baseUrl: 'http://relay.test',
+        privateKeyHex: generateKeypairHex().privateKey,
+        fetch: (async (_url: string, init: { headers: Record<string, string> }) => {
+          sent.push(init.headers);
+          return new Response(JSON.stringify({ ok: true }), { status: 200 });
+        }) as never
+      });
+
+      const ids = await withSpan(
+        'test',
+        'seller.quote',
+        { 'nanobazaar.job_id': 'job-1' },
+        async (outer) =>
+          withSpan('test', 'seller.lock', {}, async (inner) => {
+            await client.getOffer('offer-1');
+            return {
+              traceId: outer.spanContext().traceId,
+              outerId: outer.spanContext().spanId,
+              innerId: inner.spanContext().spanId
+            };
+          })
+      );
+      expect(sent[0]?.traceparent).toBe(`00-${ids.traceId}-${ids.innerId}-01`);
+
+      await expect(
+        withSpan('test', 'seller.execute', {}, async () => {
+          throw new Error('boom');
+        })
+      ).rejects.toThrow('boom');
+
+      await tracing?.shutdown();
+      const records = (await readFile(tracePath, 'utf8'))
+        .trim()
+        .split('\n')
+        .map((line) => JSON.parse(line));
+      const byName = new Map(records.map((record) => [record.name, record]));
+      expect(byName.get('seller.quote')).toMatchObject({
+        service: 'test-worker',
+        trace_id: ids.traceId,
+        parent_span_id: null,
+        attributes: { 'nanobazaar.job_id': 'job-1' }
+      });
+      expect(byName.get('seller.lock')?.parent_span_id).toBe(ids.outerId);
+      expect(byName.get('seller.execute')?.status.code).toBe(2);
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
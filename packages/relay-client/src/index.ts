@@ -1,12 +1,16 @@
 import { randomBytes } from 'node:crypto';
 import { fetch as undiciFetch } from 'undici';
 import {
+  injectTraceHeaders,
   publicKeyFromPrivateKeyHex,
   signCanonical
 } from '@nanobazaar/shared';
 
 export type PricingMode = 'fixed' | 'quote';
 
+// A JSON Schema (draft-07) object describing an offer's request_payload.
+export type RequestSchema = Record<string, unknown>;
+
 export type Offer = {
   offer_id: string;
   seller_pubkey: string;
@@ -15,8 +19,29 @@ export type Offer = {
   tags: string[];
   pricing_mode: PricingMode;
   fixed_price_raw: string | null;
+  request_schema: RequestSchema | null;
   active: boolean;
   created_at: string;
+  updated_at: string;
+  deleted_at: string | null;
+  taken_down_at: string | null;
+  version: number;
+};
+
+export type OfferSnapshot = {
+  version: number;
+  title: string;
+  description: string;
+  tags: string[];
+  pricing_mode: PricingMode;
+  fixed_price_raw: string | null;
+  // Absent on snapshots taken before offers carried a schema.
+  request_schema?: RequestSchema | null;
+};
+
+export type OfferVersion = OfferSnapshot & {
+  offer_id: string;
+  created_at: string;
 };
 
 export type JobStatus =
@@ -27,11 +52,14 @@ export type JobStatus =
   | 'delivered'
   | 'failed'
   | 'canceled'
-  | 'expired';
+  | 'expired'
+  | 'declined';
 
 export type Job = {
   job_id: string;
   offer_id: string;
+  offer_version: number | null;
+  offer_snapshot: OfferSnapshot | null;
   seller_pubkey: string;
   buyer_pubkey: string;
   status: JobStatus;
@@ -39,19 +67,82 @@ export type Job = {
   quote_amount_raw: string | null;
   quote_invoice_address: string | null;
   quote_expires_at: string | null;
+  accepted_at: string | null;
+  deliver_by: string | null;
+  client_reference: string | null;
   payment_tx_hash: string | null;
   payment_charge_id: string | null;
   payment_charge_address: string | null;
   payment_provider: string | null;
   payment_sweep_tx_hash: string | null;
+  payment_verified_at: string | null;
+  payment_proof: PaymentProof | null;
   lock_owner: string | null;
   lock_expires_at: string | null;
+  lock_token: number;
+  attempts: number;
+  max_attempts: number;
   result_url: string | null;
   error: unknown | null;
+  progress: JobProgress | null;
   created_at: string;
   updated_at: string;
 };
 
+export type JobProgress = {
+  percent: number | null;
+  stage: string | null;
+  message: string | null;
+  reported_at: string;
+};
+
+export type JobProgressEntry = {
+  progress_id: string;
+  percent: number | null;
+  stage: string | null;
+  message: string | null;
+  created_at: string;
+};
+
+export type JobEventType =
+  | `job.${JobStatus}`
+  | 'job.payment_submitted'
+  | 'job.quote_rejected';
+
+export type JobEvent = {
+  event_id: string;
+  job_id: string;
+  type: JobEventType;
+  from_status: JobStatus | null;
+  to_status: JobStatus;
+  created_at: string;
+};
+
+export type Webhook = {
+  webhook_id: string;
+  pubkey: string;
+  url: string;
+  event_types: JobEventType[] | null;
+  created_at: string;
+};
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export type WebhookDelivery = {
+  delivery_id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: JobEventType;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string | null;
+  last_attempt_at: string | null;
+  last_status_code: number | null;
+  last_error: string | null;
+  delivered_at: string | null;
+  created_at: string;
+};
+
 export type RelayError = {
   status: number;
   code: string;
@@ -78,22 +169,51 @@ export type OfferCreate = {
   tags?: string[];
   pricing_mode: PricingMode;
   fixed_price_raw?: string | null;
+  request_schema?: RequestSchema | null;
   active?: boolean;
 };
 
+export type OfferUpdate = Partial<OfferCreate>;
+
 export type OfferListParams = {
   q?: string;
   tags?: string[] | string;
   seller_pubkey?: string;
   pricing_mode?: PricingMode;
   active?: boolean;
+  sort?: OfferSort;
   limit?: number;
   offset?: number;
+  cursor?: string;
+  include_total?: boolean;
+};
+
+export type OfferSort = 'relevance' | 'newest' | 'price';
+
+export type OfferSearchResult = Offer & {
+  rank?: number;
+  highlight?: { title: string; description: string } | null;
 };
 
 export type JobCreate = {
   offer_id: string;
   request_payload: unknown;
+  deliver_by?: string | null;
+  client_reference?: string | null;
+};
+
+export type JobBatchCreate = {
+  jobs: JobCreate[];
+  atomic?: boolean;
+};
+
+export type JobBatchResult = {
+  index: number;
+  client_reference: string | null;
+  status: number;
+  job?: Job;
+  replayed?: boolean;
+  error?: RelayError;
 };
 
 export type JobListParams = {
@@ -101,9 +221,36 @@ export type JobListParams = {
   role?: 'seller' | 'buyer';
   limit?: number;
   offset?: number;
+  cursor?: string;
+  include_total?: boolean;
   updated_after?: string;
 };
 
+// `total` is only present when requested (the default for offset paging).
+export type PageInfo = {
+  limit: number;
+  offset: number;
+  next_cursor: string | null;
+  total?: number;
+};
+
+export type EventListParams = {
+  after?: string;
+  role?: 'seller' | 'buyer';
+  limit?: number;
+};
+
+export type WebhookCreate = {
+  url: string;
+  event_types?: JobEventType[] | null;
+};
+
+export type WebhookDeliveryListParams = {
+  status?: WebhookDeliveryStatus;
+  before?: string;
+  limit?: number;
+};
+
 export type QuoteInput = {
   quote_amount_raw: string;
   quote_invoice_address: string;
@@ -113,11 +260,134 @@ export type QuoteInput = {
   payment_provider?: string | null;
 };
 
+export type SignedStateBlock = {
+  type: 'state';
+  account: string;
+  previous: string;
+  representative: string;
+  balance: string;
+  link: string;
+  link_as_account?: string;
+  signature: string;
+  work?: string | null;
+};
+
+export type PaymentProof = {
+  block: SignedStateBlock;
+  previous_block: SignedStateBlock;
+};
+
+// At least one is required; with a proof the hash is derived from the block.
 export type PaymentInput = {
+  payment_tx_hash?: string;
+  payment_proof?: PaymentProof;
+};
+
+export type PaymentHashClaim = {
   payment_tx_hash: string;
+  claimed: boolean;
+  job_id: string | null;
+};
+
+export type AccountTier = 'standard' | 'pro' | 'unlimited';
+
+// A null limit (and remaining) means the allowance is unlimited.
+export type QuotaUsage = {
+  limit: number | null;
+  used: number;
+  remaining: number | null;
+};
+
+export type AccountQuota = {
+  pubkey: string;
+  tier: AccountTier;
+  quotas: {
+    daily_jobs: QuotaUsage & { resets_at: string };
+    open_jobs: QuotaUsage;
+    active_offers: QuotaUsage;
+  };
+  rate_limits: {
+    enabled: boolean;
+    window_ms: number;
+    default: number | null;
+    strict: number | null;
+  };
+};
+
+export type AdminAction =
+  | 'job.transition'
+  | 'offer.takedown'
+  | 'offer.restore'
+  | 'pubkey.ban'
+  | 'pubkey.unban';
+
+// One operator intervention from the audit log.
+export type AdminActionEntry = {
+  action_id: string;
+  admin_pubkey: string;
+  action: AdminAction;
+  target_id: string;
+  reason: string;
+  details: Record<string, unknown> | null;
+  created_at: string;
+};
+
+export type AdminJobListParams = {
+  status?: JobStatus[] | string;
+  seller_pubkey?: string;
+  buyer_pubkey?: string;
+  offer_id?: string;
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  include_total?: boolean;
+};
+
+export type AdminOfferListParams = {
+  seller_pubkey?: string;
+  state?: 'active' | 'inactive' | 'deleted' | 'taken_down';
+  limit?: number;
+  offset?: number;
+  cursor?: string;
+  include_total?: boolean;
+};
+
+export type AdminJobTransition = {
+  status: 'failed' | 'canceled';
+  reason: string;
+};
+
+export type AdminBan = {
+  pubkey: string;
+  banned_at: string;
+  reason: string | null;
+};
+
+export type AdminActionListParams = {
+  target_id?: string;
+  admin_pubkey?: string;
+  action?: AdminAction;
+  before?: string;
+  limit?: number;
+};
+
+export type LockInput = {
+  lock_token?: number | null;
+};
+
+export type ProgressInput = {
+  lock_token: number;
+  percent?: number | null;
+  stage?: string | null;
+  message?: string | null;
+};
+
+export type UnlockInput = {
+  lock_token: number;
 };
 
 export type DeliverInput = {
+  lock_token: number;
   result_url?: string | null;
   error?: unknown | null;
 };
@@ -126,6 +396,36 @@ export type CancelInput = {
   reason?: string | null;
 };
 
+export type RejectQuoteInput = {
+  counter_amount_raw?: string | null;
+  message?: string | null;
+};
+
+export type JobQuote = {
+  job_id: string;
+  revision: number;
+  quote_amount_raw: string;
+  quote_invoice_address: string;
+  quote_expires_at: string | null;
+  status: 'open' | 'accepted' | 'rejected';
+  counter_amount_raw: string | null;
+  response_message: string | null;
+  responded_at: string | null;
+  created_at: string;
+};
+
+export type DeclineReason =
+  | 'unsupported_request'
+  | 'invalid_request'
+  | 'capacity'
+  | 'policy'
+  | 'other';
+
+export type DeclineInput = {
+  reason: DeclineReason;
+  message?: string | null;
+};
+
 export type RelayClient = {
   buildAuthHeaders: (method: string, path: string, body: Buffer) => Record<string, string>;
   request: <T>(
@@ -136,22 +436,105 @@ export type RelayClient = {
   ) => Promise<RelayResult<T>>;
   createOffer: (offer: OfferCreate) => Promise<RelayResult<{ offer: Offer }>>;
   listOffers: (params?: OfferListParams) => Promise<
-    RelayResult<{ offers: Offer[]; limit: number; offset: number; total: number }>
+    RelayResult<{ offers: OfferSearchResult[] } & PageInfo>
   >;
-  createJob: (input: JobCreate) => Promise<RelayResult<{ job: Job }>>;
+  getOffer: (offerId: string) => Promise<RelayResult<{ offer: Offer }>>;
+  updateOffer: (
+    offerId: string,
+    input: OfferUpdate
+  ) => Promise<RelayResult<{ offer: Offer }>>;
+  deleteOffer: (offerId: string) => Promise<RelayResult<{ offer: Offer }>>;
+  listOfferVersions: (
+    offerId: string
+  ) => Promise<RelayResult<{ versions: OfferVersion[] }>>;
+  createJob: (
+    input: JobCreate
+  ) => Promise<RelayResult<{ job: Job; replayed?: boolean }>>;
+  createJobs: (
+    input: JobBatchCreate
+  ) => Promise<RelayResult<{ results: JobBatchResult[] }>>;
   listJobs: (params?: JobListParams) => Promise<
-    RelayResult<{ jobs: Job[]; limit: number; offset: number; total: number }>
+    RelayResult<{ jobs: Job[] } & PageInfo>
   >;
-  getJob: (jobId: string) => Promise<RelayResult<{ job: Job }>>;
+  getJob: (
+    jobId: string
+  ) => Promise<RelayResult<{ job: Job; progress_history: JobProgressEntry[] }>>;
   quoteJob: (jobId: string, input: QuoteInput) => Promise<RelayResult<{ job: Job }>>;
   acceptJob: (jobId: string) => Promise<RelayResult<{ job: Job }>>;
+  rejectQuote: (
+    jobId: string,
+    input?: RejectQuoteInput
+  ) => Promise<RelayResult<{ job: Job }>>;
+  listJobQuotes: (jobId: string) => Promise<RelayResult<{ quotes: JobQuote[] }>>;
   submitPayment: (
     jobId: string,
     input: PaymentInput
   ) => Promise<RelayResult<{ job: Job }>>;
-  lockJob: (jobId: string) => Promise<RelayResult<{ job: Job }>>;
+  checkPaymentHash: (hash: string) => Promise<RelayResult<PaymentHashClaim>>;
+  getAccountQuota: () => Promise<RelayResult<AccountQuota>>;
+  lockJob: (jobId: string, input?: LockInput) => Promise<RelayResult<{ job: Job }>>;
+  unlockJob: (jobId: string, input: UnlockInput) => Promise<RelayResult<{ job: Job }>>;
+  reportProgress: (
+    jobId: string,
+    input: ProgressInput
+  ) => Promise<RelayResult<{ job: Job; progress: JobProgressEntry }>>;
   deliverJob: (jobId: string, input: DeliverInput) => Promise<RelayResult<{ job: Job }>>;
   cancelJob: (jobId: string, input?: CancelInput) => Promise<RelayResult<{ job: Job }>>;
+  declineJob: (jobId: string, input: DeclineInput) => Promise<RelayResult<{ job: Job }>>;
+  listEvents: (params?: EventListParams) => Promise<
+    RelayResult<{ events: JobEvent[]; limit: number; next_after: string }>
+  >;
+  createWebhook: (
+    input: WebhookCreate
+  ) => Promise<RelayResult<{ webhook: Webhook; relay_pubkey: string }>>;
+  listWebhooks: () => Promise<
+    RelayResult<{ webhooks: Webhook[]; relay_pubkey: string }>
+  >;
+  deleteWebhook: (webhookId: string) => Promise<RelayResult<{ webhook: Webhook }>>;
+  listWebhookDeliveries: (
+    webhookId: string,
+    params?: WebhookDeliveryListParams
+  ) => Promise<
+    RelayResult<{
+      deliveries: WebhookDelivery[];
+      limit: number;
+      next_before: string | null;
+    }>
+  >;
+  adminListJobs: (params?: AdminJobListParams) => Promise<
+    RelayResult<{ jobs: Job[] } & PageInfo>
+  >;
+  adminTransitionJob: (
+    jobId: string,
+    input: AdminJobTransition
+  ) => Promise<RelayResult<{ job: Job; action: AdminActionEntry }>>;
+  adminListOffers: (params?: AdminOfferListParams) => Promise<
+    RelayResult<{ offers: Offer[] } & PageInfo>
+  >;
+  adminTakedownOffer: (
+    offerId: string,
+    reason: string
+  ) => Promise<RelayResult<{ offer: Offer; action: AdminActionEntry }>>;
+  adminRestoreOffer: (
+    offerId: string,
+    reason: string
+  ) => Promise<RelayResult<{ offer: Offer; action: AdminActionEntry }>>;
+  adminListBans: () => Promise<RelayResult<{ bans: AdminBan[] }>>;
+  adminBanPubkey: (
+    pubkey: string,
+    reason: string
+  ) => Promise<RelayResult<{ ban: AdminBan; action: AdminActionEntry }>>;
+  adminLiftBan: (
+    pubkey: string,
+    reason: string
+  ) => Promise<RelayResult<{ action: AdminActionEntry }>>;
+  adminListActions: (params?: AdminActionListParams) => Promise<
+    RelayResult<{
+      actions: AdminActionEntry[];
+      limit: number;
+      next_before: string | null;
+    }>
+  >;
 };
 
 const trimBaseUrl = (baseUrl: string) => baseUrl.replace(/\/$/, '');
@@ -271,6 +654,8 @@ export const createRelayClient = (options: RelayClientOptions): RelayClient => {
     if (userAgent) {
       headers['user-agent'] = userAgent;
     }
+    // Lets the relay's spans join the caller's trace; a no-op without tracing.
+    injectTraceHeaders(headers);
 
     try {
       const response = await fetcher(`${baseUrl}${path}`, {
@@ -329,11 +714,22 @@ export const createRelayClient = (options: RelayClientOptions): RelayClient => {
           seller_pubkey: params.seller_pubkey,
           pricing_mode: params.pricing_mode,
           active: params.active,
+          sort: params.sort,
           limit: params.limit,
-          offset: params.offset
+          offset: params.offset,
+          cursor: params.cursor,
+          include_total: params.include_total
         })}`
       ),
+    getOffer: (offerId) => request('GET', `/v1/offers/${offerId}`),
+    updateOffer: (offerId, input) =>
+      request('PATCH', `/v1/offers/${offerId}`, input, { auth: true }),
+    deleteOffer: (offerId) =>
+      request('DELETE', `/v1/offers/${offerId}`, undefined, { auth: true }),
+    listOfferVersions: (offerId) =>
+      request('GET', `/v1/offers/${offerId}/versions`),
     createJob: (input) => request('POST', '/v1/jobs', input, { auth: true }),
+    createJobs: (input) => request('POST', '/v1/jobs/batch', input, { auth: true }),
     listJobs: (params = {}) =>
       request(
         'GET',
@@ -342,6 +738,8 @@ export const createRelayClient = (options: RelayClientOptions): RelayClient => {
           role: params.role,
           limit: params.limit,
           offset: params.offset,
+          cursor: params.cursor,
+          include_total: params.include_total,
           updated_after: params.updated_after
         })}`,
         undefined,
@@ -352,12 +750,112 @@ export const createRelayClient = (options: RelayClientOptions): RelayClient => {
       request('POST', `/v1/jobs/${jobId}/quote`, input, { auth: true }),
     acceptJob: (jobId) =>
       request('POST', `/v1/jobs/${jobId}/accept`, {}, { auth: true }),
+    rejectQuote: (jobId, input = {}) =>
+      request('POST', `/v1/jobs/${jobId}/reject-quote`, input, { auth: true }),
+    listJobQuotes: (jobId) =>
+      request('GET', `/v1/jobs/${jobId}/quotes`, undefined, { auth: true }),
     submitPayment: (jobId, input) =>
       request('POST', `/v1/jobs/${jobId}/payment`, input, { auth: true }),
-    lockJob: (jobId) => request('POST', `/v1/jobs/${jobId}/lock`, {}, { auth: true }),
+    checkPaymentHash: (hash) =>
+      request('GET', `/v1/payment-hashes/${encodeURIComponent(hash)}`, undefined, {
+        auth: true
+      }),
+    getAccountQuota: () =>
+      request('GET', '/v1/account/quota', undefined, { auth: true }),
+    lockJob: (jobId, input = {}) =>
+      request('POST', `/v1/jobs/${jobId}/lock`, input, { auth: true }),
+    unlockJob: (jobId, input) =>
+      request('POST', `/v1/jobs/${jobId}/unlock`, input, { auth: true }),
+    reportProgress: (jobId, input) =>
+      request('POST', `/v1/jobs/${jobId}/progress`, input, { auth: true }),
     deliverJob: (jobId, input) =>
       request('POST', `/v1/jobs/${jobId}/deliver`, input, { auth: true }),
     cancelJob: (jobId, input = {}) =>
-      request('POST', `/v1/jobs/${jobId}/cancel`, input, { auth: true })
+      request('POST', `/v1/jobs/${jobId}/cancel`, input, { auth: true }),
+    declineJob: (jobId, input) =>
+      request('POST', `/v1/jobs/${jobId}/decline`, input, { auth: true }),
+    listEvents: (params = {}) =>
+      request(
+        'GET',
+        `/v1/events${toQueryString({
+          after: params.after,
+          role: params.role,
+          limit: params.limit
+        })}`,
+        undefined,
+        { auth: true }
+      ),
+    createWebhook: (input) =>
+      request('POST', '/v1/webhooks', input, { auth: true }),
+    listWebhooks: () =>
+      request('GET', '/v1/webhooks', undefined, { auth: true }),
+    deleteWebhook: (webhookId) =>
+      request('DELETE', `/v1/webhooks/${webhookId}`, undefined, { auth: true }),
+    listWebhookDeliveries: (webhookId, params = {}) =>
+      request(
+        'GET',
+        `/v1/webhooks/${webhookId}/deliveries${toQueryString({
+          status: params.status,
+          before: params.before,
+          limit: params.limit
+        })}`,
+        undefined,
+        { auth: true }
+      ),
+    adminListJobs: (params = {}) =>
+      request(
+        'GET',
+        `/admin/v1/jobs${toQueryString({
+          status: params.status,
+          seller_pubkey: params.seller_pubkey,
+          buyer_pubkey: params.buyer_pubkey,
+          offer_id: params.offer_id,
+          limit: params.limit,
+          offset: params.offset,
+          cursor: params.cursor,
+          include_total: params.include_total
+        })}`,
+        undefined,
+        { auth: true }
+      ),
+    adminTransitionJob: (jobId, input) =>
+      request('POST', `/admin/v1/jobs/${jobId}/transition`, input, { auth: true }),
+    adminListOffers: (params = {}) =>
+      request(
+        'GET',
+        `/admin/v1/offers${toQueryString({
+          seller_pubkey: params.seller_pubkey,
+          state: params.state,
+          limit: params.limit,
+          offset: params.offset,
+          cursor: params.cursor,
+          include_total: params.include_total
+        })}`,
+        undefined,
+        { auth: true }
+      ),
+    adminTakedownOffer: (offerId, reason) =>
+      request('POST', `/admin/v1/offers/${offerId}/takedown`, { reason }, { auth: true }),
+    adminRestoreOffer: (offerId, reason) =>
+      request('POST', `/admin/v1/offers/${offerId}/restore`, { reason }, { auth: true }),
+    adminListBans: () =>
+      request('GET', '/admin/v1/bans', undefined, { auth: true }),
+    adminBanPubkey: (pubkey, reason) =>
+      request('POST', '/admin/v1/bans', { pubkey, reason }, { auth: true }),
+    adminLiftBan: (pubkey, reason) =>
+      request('POST', `/admin/v1/bans/${pubkey}/lift`, { reason }, { auth: true }),
+    adminListActions: (params = {}) =>
+      request(
+        'GET',
+        `/admin/v1/actions${toQueryString({
+          target_id: params.target_id,
+          admin_pubkey: params.admin_pubkey,
+          action: params.action,
+          before: params.before,
+          limit: params.limit
+        })}`,
+        undefined,
+        { auth: true }
+      )
   };
 };
@@ -80,3 +80,14 @@ export const publicKeyFromPrivateKeyHex = (privateKeyHex: string): string => {
   const keypair = nacl.sign.keyPair.fromSecretKey(secretKey);
   return bytesToHex(keypair.publicKey);
 };
+
+export const generateKeypairHex = (): {
+  publicKey: string;
+  privateKey: string;
+} => {
+  const keypair = nacl.sign.keyPair();
+  return {
+    publicKey: bytesToHex(keypair.publicKey),
+    privateKey: bytesToHex(keypair.secretKey)
+  };
+};
@@ -7,6 +7,35 @@ export {
   verifyCanonical,
   signNonce,
   verifyNonce,
-  publicKeyFromPrivateKeyHex
+  publicKeyFromPrivateKeyHex,
+  generateKeypairHex
 } from './crypto.js';
 export type { CanonicalInput } from './crypto.js';
+export { NanoRpcClient } from './nano-rpc.js';
+export type {
+  NanoBlockInfo,
+  NanoReceivableBlock,
+  RpcResult
+} from './nano-rpc.js';
+export {
+  PaymentVerifier,
+  normalizePaymentHash,
+  verifyPaymentProof
+} from './payment-verifier.js';
+export type {
+  PaymentHashLedger,
+  PaymentJob,
+  PaymentProof,
+  PaymentRpc,
+  SignedStateBlock,
+  VerificationDetails,
+  VerificationResult
+} from './payment-verifier.js';
+export {
+  FileSpanExporter,
+  initTracing,
+  injectTraceHeaders,
+  toSpanRecord,
+  withSpan
+} from './tracing.js';
+export type { Tracing, TracingOptions } from './tracing.js';
@@ -0,0 +1,368 @@
+import { deriveAddress, derivePublicKey, hashBlock, verifyBlock } from 'nanocurrency';
+import type { NanoBlockInfo, NanoRpcClient } from './nano-rpc.js';
+
+// The quote fields a payment is checked against; both relay rows and worker
+// jobs satisfy this.
+export type PaymentJob = {
+  job_id: string;
+  quote_amount_raw: string | null;
+  quote_invoice_address: string | null;
+  payment_tx_hash: string | null;
+};
+
+// Anything that can answer block lookups: the real RPC client or a test stub.
+export type PaymentRpc = Pick<NanoRpcClient, 'getBlockInfo' | 'getReceivable'>;
+
+// Remembers which job each payment hash paid for, so one send cannot settle
+// two jobs. The seller wallet implements this.
+export type PaymentHashLedger = {
+  isPaymentHashUsed: (hash: string, jobId: string) => boolean;
+  markPaymentHashUsed: (hash: string, jobId: string) => Promise<void>;
+};
+
+// A state block as returned by the node's `block_info`/`process` JSON.
+export type SignedStateBlock = {
+  type: 'state';
+  account: string;
+  previous: string;
+  representative: string;
+  balance: string;
+  link: string;
+  link_as_account?: string;
+  signature: string;
+  work?: string | null;
+};
+
+// A signed send plus the account's block before it. The previous block's
+// balance is what makes the amount sent checkable without a node.
+export type PaymentProof = {
+  block: SignedStateBlock;
+  previous_block: SignedStateBlock;
+};
+
+export type VerificationDetails = {
+  tx_hash: string;
+  amount_raw: string;
+  destination: string | null;
+  confirmed: boolean | null;
+};
+
+export type VerificationResult =
+  | {
+      verified: true;
+      details: VerificationDetails;
+    }
+  | {
+      verified: false;
+      reason: string;
+      details?: Partial<VerificationDetails> & { error?: string };
+    };
+
+export const normalizePaymentHash = (hash: string) => hash.trim().toLowerCase();
+
+const parseAmount = (value: string) => {
+  try {
+    return BigInt(value);
+  } catch {
+    return null;
+  }
+};
+
+const isSendBlock = (info: NanoBlockInfo) =>
+  info.subtype === 'send' || info.blockType === 'send';
+
+const isConfirmed = (info: NanoBlockInfo, minConfirmations: number) => {
+  if (minConfirmations <= 0) return true;
+  return info.confirmed === true;
+};
+
+const isNotFoundError = (message: string) =>
+  message.toLowerCase().includes('not found') || message.toLowerCase().includes('missing');
+
+const validateBlockForJob = (
+  info: NanoBlockInfo,
+  job: PaymentJob,
+  minConfirmations: number
+): VerificationResult => {
+  if (!isSendBlock(info)) {
+    return { verified: false, reason: 'payment.not_send' };
+  }
+  if (!job.quote_amount_raw || !job.quote_invoice_address) {
+    return { verified: false, reason: 'payment.missing_quote' };
+  }
+
+  if (!info.destination || info.destination !== job.quote_invoice_address) {
+    return {
+      verified: false,
+      reason: 'payment.address_mismatch',
+      details: {
+        tx_hash: info.hash,
+        destination: info.destination
+      }
+    };
+  }
+
+  const quoted = parseAmount(job.quote_amount_raw);
+  const paid = parseAmount(info.amountRaw);
+  if (!quoted || !paid) {
+    return { verified: false, reason: 'payment.amount_invalid' };
+  }
+  if (paid < quoted) {
+    return {
+      verified: false,
+      reason: 'payment.amount_mismatch',
+      details: {
+        tx_hash: info.hash,
+        amount_raw: info.amountRaw,
+        destination: info.destination
+      }
+    };
+  }
+
+  if (!isConfirmed(info, minConfirmations)) {
+    return {
+      verified: false,
+      reason: 'payment.unconfirmed',
+      details: {
+        tx_hash: info.hash,
+        destination: info.destination,
+        amount_raw: info.amountRaw,
+        confirmed: info.confirmed
+      }
+    };
+  }
+
+  return {
+    verified: true,
+    details: {
+      tx_hash: info.hash,
+      amount_raw: info.amountRaw,
+      destination: info.destination,
+      confirmed: info.confirmed
+    }
+  };
+};
+
+const hashStateBlock = (block: SignedStateBlock) =>
+  hashBlock({
+    account: block.account,
+    previous: block.previous,
+    representative: block.representative,
+    balance: block.balance,
+    link: block.link
+  });
+
+const publicKeyOf = (address: string): string | null => {
+  try {
+    return derivePublicKey(address);
+  } catch {
+    return null;
+  }
+};
+
+const isSignedBy = (block: SignedStateBlock, hash: string, publicKey: string) => {
+  try {
+    return verifyBlock({ hash, signature: block.signature, publicKey });
+  } catch {
+    return false;
+  }
+};
+
+// Checks a payment from the signed blocks alone: both hashes are recomputed,
+// both signatures must come from the paying account, and the balance drop
+// must reach the quote. This proves the buyer signed the send, not that the
+// network confirmed it, so `confirmed` is always null.
+export const verifyPaymentProof = (
+  job: PaymentJob,
+  proof: PaymentProof
+): VerificationResult => {
+  if (!job.quote_amount_raw || !job.quote_invoice_address) {
+    return { verified: false, reason: 'payment.missing_quote' };
+  }
+  const { block, previous_block: previous } = proof;
+
+  let hash: string;
+  let previousHash: string;
+  let destination: string;
+  try {
+    hash = hashStateBlock(block);
+    previousHash = hashStateBlock(previous);
+    destination = deriveAddress(block.link, { useNanoPrefix: true });
+  } catch (error) {
+    return {
+      verified: false,
+      reason: 'payment.proof_invalid',
+      details: { error: error instanceof Error ? error.message : String(error) }
+    };
+  }
+  const txHash = normalizePaymentHash(hash);
+  const invalid = (error: string): VerificationResult => ({
+    verified: false,
+    reason: 'payment.proof_invalid',
+    details: { tx_hash: txHash, error }
+  });
+
+  const accountKey = publicKeyOf(block.account);
+  if (!accountKey || publicKeyOf(previous.account) !== accountKey) {
+    return invalid('block and previous_block belong to different accounts');
+  }
+  if (previousHash !== block.previous.toUpperCase()) {
+    return invalid('previous_block is not the block before block');
+  }
+  if (
+    block.link_as_account !== undefined &&
+    publicKeyOf(block.link_as_account) !== block.link.toUpperCase()
+  ) {
+    return invalid('link_as_account does not match link');
+  }
+  if (!isSignedBy(block, hash, accountKey) || !isSignedBy(previous, previousHash, accountKey)) {
+    return { verified: false, reason: 'payment.bad_signature', details: { tx_hash: txHash } };
+  }
+
+  if (publicKeyOf(destination) !== publicKeyOf(job.quote_invoice_address)) {
+    return {
+      verified: false,
+      reason: 'payment.address_mismatch',
+      details: { tx_hash: txHash, destination }
+    };
+  }
+
+  const quoted = parseAmount(job.quote_amount_raw);
+  const before = parseAmount(previous.balance);
+  const after = parseAmount(block.balance);
+  if (!quoted || before === null || after === null) {
+    return { verified: false, reason: 'payment.amount_invalid' };
+  }
+  if (after >= before) {
+    return { verified: false, reason: 'payment.not_send', details: { tx_hash: txHash } };
+  }
+  const amountRaw = (before - after).toString();
+  if (before - after < quoted) {
+    return {
+      verified: false,
+      reason: 'payment.amount_mismatch',
+      details: { tx_hash: txHash, amount_raw: amountRaw, destination }
+    };
+  }
+
+  return {
+    verified: true,
+    details: { tx_hash: txHash, amount_raw: amountRaw, destination, confirmed: null }
+  };
+};
+
+export class PaymentVerifier {
+  private wallet: PaymentHashLedger | null;
+  private rpc: PaymentRpc;
+  private minConfirmations: number;
+
+  constructor(options: {
+    wallet?: PaymentHashLedger | null;
+    rpc: PaymentRpc;
+    minConfirmations: number;
+  }) {
+    this.wallet = options.wallet ?? null;
+    this.rpc = options.rpc;
+    this.minConfirmations = options.minConfirmations;
+  }
+
+  // Checks one specific block against the job's quote, without scanning the
+  // invoice address for other candidates.
+  async verifyHash(job: PaymentJob, hash: string): Promise<VerificationResult> {
+    const normalized = normalizePaymentHash(hash);
+    if (this.wallet?.isPaymentHashUsed(normalized, job.job_id)) {
+      return { verified: false, reason: 'payment.hash_reused' };
+    }
+
+    const blockInfo = await this.rpc.getBlockInfo(normalized);
+    if (!blockInfo.ok) {
+      if (isNotFoundError(blockInfo.error)) {
+        return { verified: false, reason: 'payment.not_found' };
+      }
+      return {
+        verified: false,
+        reason: 'wallet.rpc_unavailable',
+        details: { error: blockInfo.error }
+      };
+    }
+
+    const validation = validateBlockForJob(blockInfo.data, job, this.minConfirmations);
+    if (validation.verified) {
+      await this.wallet?.markPaymentHashUsed(normalized, job.job_id);
+    }
+    return validation;
+  }
+
+  // Offline counterpart of verifyHash for buyers who submit the signed blocks.
+  async verifyProof(job: PaymentJob, proof: PaymentProof): Promise<VerificationResult> {
+    const result = verifyPaymentProof(job, proof);
+    if (!result.verified) return result;
+    if (this.wallet?.isPaymentHashUsed(result.details.tx_hash, job.job_id)) {
+      return { verified: false, reason: 'payment.hash_reused' };
+    }
+    await this.wallet?.markPaymentHashUsed(result.details.tx_hash, job.job_id);
+    return result;
+  }
+
+  async verify(job: PaymentJob): Promise<VerificationResult> {
+    if (!job.quote_invoice_address || !job.quote_amount_raw) {
+      return { verified: false, reason: 'payment.missing_quote' };
+    }
+
+    if (job.payment_tx_hash) {
+      const directResult = await this.verifyHash(job, job.payment_tx_hash);
+      if (directResult.verified || directResult.reason !== 'payment.not_found') {
+        return directResult;
+      }
+    }
+
+    const receivable = await this.rpc.getReceivable(job.quote_invoice_address);
+    if (!receivable.ok) {
+      return {
+        verified: false,
+        reason: 'wallet.rpc_unavailable',
+        details: { error: receivable.error }
+      };
+    }
+
+    const quoteAmount = parseAmount(job.quote_amount_raw);
+    if (!quoteAmount) {
+      return { verified: false, reason: 'payment.amount_invalid' };
+    }
+
+    const candidates = receivable.data
+      .filter((entry) => {
+        const amount = parseAmount(entry.amountRaw);
+        return amount !== null && amount >= quoteAmount;
+      })
+      .sort((a, b) => {
+        const amountA = parseAmount(a.amountRaw) ?? 0n;
+        const amountB = parseAmount(b.amountRaw) ?? 0n;
+        if (amountA === amountB) return 0;
+        return amountA > amountB ? -1 : 1;
+      });
+
+    let sawUnconfirmed = false;
+
+    for (const candidate of candidates) {
+      const result = await this.verifyHash(job, candidate.hash);
+      if (result.verified) return result;
+      if (result.reason === 'payment.unconfirmed') {
+        sawUnconfirmed = true;
+        continue;
+      }
+      if (result.reason === 'payment.hash_reused') {
+        continue;
+      }
+      if (result.reason === 'wallet.rpc_unavailable') {
+        return result;
+      }
+    }
+
+    if (sawUnconfirmed) {
+      return { verified: false, reason: 'payment.unconfirmed' };
+    }
+
+    return { verified: false, reason: 'payment.not_found' };
+  }
+}
@@ -0,0 +1,130 @@
+import { appendFile } from 'node:fs/promises';
+import {
+  context,
+  propagation,
+  SpanStatusCode,
+  trace,
+  type Attributes,
+  type Span
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  W3CTraceContextPropagator,
+  type ExportResult
+} from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter
+} from '@opentelemetry/sdk-trace-base';
+
+export type TracingOptions = {
+  serviceName: string;
+  // Overrides the env-selected exporter; tests pass an in-memory one.
+  exporter?: SpanExporter;
+};
+
+export type Tracing = {
+  shutdown: () => Promise<void>;
+};
+
+// Writes one JSON object per finished span, so traces can be inspected or
+// asserted on without a collector.
+export class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {}
+
+  export(spans: ReadableSpan[], done: (result: ExportResult) => void): void {
+    const lines = spans.map((span) => `${JSON.stringify(toSpanRecord(span))}\n`);
+    appendFile(this.path, lines.join('')).then(
+      () => done({ code: ExportResultCode.SUCCESS }),
+      (error: Error) => done({ code: ExportResultCode.FAILED, error })
+    );
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+export const toSpanRecord = (span: ReadableSpan) => ({
+  service: span.resource.attributes['service.name'] ?? null,
+  name: span.name,
+  kind: span.kind,
+  trace_id: span.spanContext().traceId,
+  span_id: span.spanContext().spanId,
+  parent_span_id: span.parentSpanContext?.spanId ?? null,
+  start_time: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+  duration_ms: hrTimeToMilliseconds(span.duration),
+  status: span.status,
+  attributes: span.attributes
+});
+
+// OTEL_TRACES_FILE wins over an OTLP endpoint; with neither, tracing stays
+// the API's no-op and costs nothing.
+const exporterFromEnv = (): SpanExporter | null => {
+  const file = process.env.OTEL_TRACES_FILE;
+  if (file) return new FileSpanExporter(file);
+  if (
+    process.env.OTEL_EXPORTER_OTLP_ENDPOINT ||
+    process.env.OTEL_EXPORTER_OTLP_TRACES_ENDPOINT
+  ) {
+    return new OTLPTraceExporter();
+  }
+  return null;
+};
+
+export const initTracing = (options: TracingOptions): Tracing | null => {
+  const exporter = options.exporter ?? exporterFromEnv();
+  if (!exporter) return null;
+  // Batching only pays off over the network; local exporters see each span
+  // as soon as it ends.
+  const processor =
+    exporter instanceof OTLPTraceExporter
+      ? new BatchSpanProcessor(exporter)
+      : new SimpleSpanProcessor(exporter);
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': options.serviceName }),
+    spanProcessors: [processor]
+  });
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+  trace.setGlobalTracerProvider(provider);
+  return {
+    shutdown: async () => {
+      await provider.shutdown();
+      trace.disable();
+      propagation.disable();
+      context.disable();
+    }
+  };
+};
+
+// Adds `traceparent` (and `tracestate`) for the active span, if any.
+export const injectTraceHeaders = (headers: Record<string, string>) => {
+  propagation.inject(context.active(), headers);
+  return headers;
+};
+
+// Runs fn inside a new active span, recording a thrown error before
+// rethrowing it.
+export const withSpan = async <T>(
+  tracerName: string,
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> =>
+  trace.getTracer(tracerName).startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(error instanceof Error ? error : String(error));
+      span.setStatus({ code: SpanStatusCode.ERROR });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
@@ -104,7 +104,7 @@ const waitForStatus = async (jobId: string, target: string) => {
     }
     const job = response.data.job;
     if (job.status === target) return job;
-    if (['failed', 'canceled', 'expired'].includes(job.status)) {
+    if (['failed', 'canceled', 'expired', 'declined'].includes(job.status)) {
       throw new Error(`Job ended in ${job.status}`);
     }
     await delay(1000);
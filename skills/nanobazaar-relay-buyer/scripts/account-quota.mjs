@@ -0,0 +1,6 @@
+#!/usr/bin/env node
+import { createClient, printResult } from './utils.mjs';
+
+const client = createClient();
+const result = await client.getAccountQuota();
+printResult(result);
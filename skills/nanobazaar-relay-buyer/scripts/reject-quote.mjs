@@ -0,0 +1,19 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, printResult } from './utils.mjs';
+
+const args = parseArgs();
+const jobId = args['job-id'];
+if (!jobId || typeof jobId !== 'string') {
+  console.error('Missing --job-id');
+  process.exit(1);
+}
+
+const client = createClient();
+const result = await client.rejectQuote(jobId, {
+  counter_amount_raw:
+    typeof args['counter-amount-raw'] === 'string'
+      ? args['counter-amount-raw']
+      : undefined,
+  message: typeof args.message === 'string' ? args.message : undefined
+});
+printResult(result);
@@ -14,9 +14,14 @@ const requestPayload =
     filePath: args['request-file']
   })) ?? {};
 
+const deliverBy = args['deliver-by'];
+const clientReference = args['client-reference'];
+
 const client = createClient();
 const result = await client.createJob({
   offer_id: offerId,
-  request_payload: requestPayload
+  request_payload: requestPayload,
+  ...(typeof deliverBy === 'string' ? { deliver_by: deliverBy } : {}),
+  ...(typeof clientReference === 'string' ? { client_reference: clientReference } : {})
 });
 printResult(result);
@@ -0,0 +1,23 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, parseBool, printResult, readJsonArg } from './utils.mjs';
+
+const args = parseArgs();
+// Either an array of job requests or `{ "jobs": [...] }`.
+const input = await readJsonArg({
+  jsonValue: args.jobs,
+  filePath: args['jobs-file']
+});
+const jobs = Array.isArray(input) ? input : input?.jobs;
+if (!Array.isArray(jobs) || jobs.length === 0) {
+  console.error('Missing --jobs or --jobs-file');
+  process.exit(1);
+}
+
+const atomic = parseBool(args.atomic);
+
+const client = createClient();
+const result = await client.createJobs({
+  jobs,
+  ...(atomic !== undefined ? { atomic } : {})
+});
+printResult(result);
@@ -20,7 +20,9 @@ const params = {
   pricing_mode: typeof args['pricing-mode'] === 'string' ? args['pricing-mode'] : undefined,
   active: parseBool(args.active),
   limit: parseNumber(args.limit),
-  offset: parseNumber(args.offset)
+  offset: parseNumber(args.offset),
+  sort: typeof args.sort === 'string' ? args.sort : undefined,
+  cursor: typeof args.cursor === 'string' ? args.cursor : undefined
 };
 
 const result = await client.listOffers(params);
@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import { createClient, parseArgs, printResult } from './utils.mjs';
+import { createClient, parseArgs, printResult, readJsonArg } from './utils.mjs';
 
 const args = parseArgs();
 const jobId = args['job-id'];
@@ -8,13 +8,19 @@ if (!jobId || typeof jobId !== 'string') {
   console.error('Missing --job-id');
   process.exit(1);
 }
-if (!paymentTxHash || typeof paymentTxHash !== 'string') {
-  console.error('Missing --payment-tx-hash');
+// A signed proof is `{ "block": <state block>, "previous_block": <state block> }`.
+const paymentProof = await readJsonArg({
+  jsonValue: args['payment-proof'],
+  filePath: args['payment-proof-file']
+});
+if ((!paymentTxHash || typeof paymentTxHash !== 'string') && !paymentProof) {
+  console.error('Missing --payment-tx-hash or --payment-proof-file');
   process.exit(1);
 }
 
 const client = createClient();
 const result = await client.submitPayment(jobId, {
-  payment_tx_hash: paymentTxHash
+  ...(typeof paymentTxHash === 'string' ? { payment_tx_hash: paymentTxHash } : {}),
+  ...(paymentProof ? { payment_proof: paymentProof } : {})
 });
 printResult(result);
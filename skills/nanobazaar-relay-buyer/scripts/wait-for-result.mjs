@@ -24,6 +24,7 @@ const pollIntervalMs =
 
 const client = createClient();
 const deadline = Date.now() + timeoutMs;
+let lastProgressAt = null;
 
 while (Date.now() < deadline) {
   const result = await client.getJob(jobId);
@@ -32,6 +33,18 @@ while (Date.now() < deadline) {
     process.exit(1);
   }
   const job = result.data.job;
+  // Progress goes to stderr so stdout stays a single JSON result.
+  if (job.progress && job.progress.reported_at !== lastProgressAt) {
+    lastProgressAt = job.progress.reported_at;
+    console.error(
+      JSON.stringify({
+        status: job.status,
+        percent: job.progress.percent,
+        stage: job.progress.stage,
+        message: job.progress.message
+      })
+    );
+  }
   if (job.status === 'delivered') {
     console.log(
       JSON.stringify(
@@ -48,6 +61,20 @@ while (Date.now() < deadline) {
     );
     process.exit(1);
   }
+  if (job.status === 'declined') {
+    console.error(
+      JSON.stringify(
+        {
+          status: job.status,
+          reason: job.error?.code ?? null,
+          message: job.error?.message ?? null
+        },
+        null,
+        2
+      )
+    );
+    process.exit(1);
+  }
   if (['canceled', 'expired'].includes(job.status)) {
     console.error(
       JSON.stringify({ status: job.status, error: job.error }, null, 2)
@@ -0,0 +1,13 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, printResult } from './utils.mjs';
+
+const args = parseArgs();
+const hash = args.hash;
+if (!hash || typeof hash !== 'string') {
+  console.error('Missing --hash');
+  process.exit(1);
+}
+
+const client = createClient();
+const result = await client.checkPaymentHash(hash);
+printResult(result);
@@ -0,0 +1,21 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, printResult } from './utils.mjs';
+
+const args = parseArgs();
+const jobId = args['job-id'];
+const reason = args.reason;
+if (!jobId || typeof jobId !== 'string') {
+  console.error('Missing --job-id');
+  process.exit(1);
+}
+if (!reason || typeof reason !== 'string') {
+  console.error('Missing --reason');
+  process.exit(1);
+}
+
+const client = createClient();
+const result = await client.declineJob(jobId, {
+  reason,
+  message: typeof args.message === 'string' ? args.message : undefined
+});
+printResult(result);
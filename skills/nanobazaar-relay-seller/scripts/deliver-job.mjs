@@ -1,5 +1,11 @@
 #!/usr/bin/env node
-import { createClient, parseArgs, readJsonArg, printResult } from './utils.mjs';
+import {
+  createClient,
+  parseArgs,
+  parseNumber,
+  readJsonArg,
+  printResult
+} from './utils.mjs';
 
 const args = parseArgs();
 const jobId = args['job-id'];
@@ -7,6 +13,11 @@ if (!jobId || typeof jobId !== 'string') {
   console.error('Missing --job-id');
   process.exit(1);
 }
+const lockToken = parseNumber(args['lock-token']);
+if (lockToken === undefined) {
+  console.error('Missing --lock-token (from the lock-job response)');
+  process.exit(1);
+}
 
 const resultUrl = typeof args['result-url'] === 'string' ? args['result-url'] : undefined;
 const errorPayload = await readJsonArg({
@@ -24,6 +35,7 @@ if (hasResult === hasError) {
 
 const client = createClient();
 const result = await client.deliverJob(jobId, {
+  lock_token: lockToken,
   result_url: hasResult ? resultUrl : null,
   error: hasError ? errorPayload : null
 });
@@ -12,6 +12,7 @@ const params = {
   role: typeof args.role === 'string' ? args.role : 'seller',
   limit: parseNumber(args.limit),
   offset: parseNumber(args.offset),
+  cursor: typeof args.cursor === 'string' ? args.cursor : undefined,
   updated_after: typeof args['updated-after'] === 'string' ? args['updated-after'] : undefined
 };
 
@@ -1,5 +1,5 @@
 #!/usr/bin/env node
-import { createClient, parseArgs, printResult } from './utils.mjs';
+import { createClient, parseArgs, parseNumber, printResult } from './utils.mjs';
 
 const args = parseArgs();
 const jobId = args['job-id'];
@@ -9,5 +9,7 @@ if (!jobId || typeof jobId !== 'string') {
 }
 
 const client = createClient();
-const result = await client.lockJob(jobId);
+const result = await client.lockJob(jobId, {
+  lock_token: parseNumber(args['lock-token'])
+});
 printResult(result);
@@ -0,0 +1,31 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, parseNumber, printResult } from './utils.mjs';
+
+const args = parseArgs();
+const jobId = args['job-id'];
+if (!jobId || typeof jobId !== 'string') {
+  console.error('Missing --job-id');
+  process.exit(1);
+}
+const lockToken = parseNumber(args['lock-token']);
+if (lockToken === undefined) {
+  console.error('Missing --lock-token');
+  process.exit(1);
+}
+
+const percent = parseNumber(args.percent);
+const stage = typeof args.stage === 'string' ? args.stage : undefined;
+const message = typeof args.message === 'string' ? args.message : undefined;
+if (percent === undefined && stage === undefined && message === undefined) {
+  console.error('Provide at least one of --percent, --stage or --message');
+  process.exit(1);
+}
+
+const client = createClient();
+const result = await client.reportProgress(jobId, {
+  lock_token: lockToken,
+  percent,
+  stage,
+  message
+});
+printResult(result);
@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import { createClient, parseArgs, parseNumber, printResult } from './utils.mjs';
+
+const args = parseArgs();
+const jobId = args['job-id'];
+if (!jobId || typeof jobId !== 'string') {
+  console.error('Missing --job-id');
+  process.exit(1);
+}
+const lockToken = parseNumber(args['lock-token']);
+if (lockToken === undefined) {
+  console.error('Missing --lock-token');
+  process.exit(1);
+}
+
+const client = createClient();
+const result = await client.unlockJob(jobId, { lock_token: lockToken });
+printResult(result);